@@ -0,0 +1,39 @@
+const { HomebridgePluginUiServer, RequestError } = require('@homebridge/plugin-ui-utils');
+const { discoverGateways, verifyGateway } = require('../dist/discovery');
+
+/**
+ * This class is the server of the custom config UI, which searches the LAN for Pronet gateways.
+ */
+class SentiotecUiServer extends HomebridgePluginUiServer {
+  /**
+   * the constructor
+   */
+  constructor() {
+    super();
+    this.onRequest('/discover', this.discover.bind(this));
+    this.onRequest('/verify', this.verify.bind(this));
+    this.ready();
+  }
+
+  /**
+   * This function scans the LAN for Pronet gateways.
+   * @returns a Promise with the gateways found
+   */
+  discover() {
+    return discoverGateways()
+      .catch((error) => {
+        throw new RequestError('Searching for gateways failed: ' + error.message, { message: error.message });
+      });
+  }
+
+  /**
+   * This function checks if a serial belongs to a gateway.
+   * @param payload the IP and the serial of the gateway
+   * @returns a Promise with true, if the gateway accepted the serial
+   */
+  verify(payload) {
+    return verifyGateway(payload.ip, payload.serial, payload.port);
+  }
+}
+
+(() => new SentiotecUiServer())();
@@ -0,0 +1,313 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { PlatformAccessory } from 'homebridge';
+import {
+  HomebridgeAPI,
+  InternalAPIEvent,
+} from 'homebridge/lib/api';
+import { User } from 'homebridge/lib/user';
+import { SentiotecPlatform } from './platform';
+import { SaunaCharacteristics } from './characteristics';
+import { MockPronetGateway } from './mockGateway';
+import {
+  createLogger,
+  waitFor,
+  waitForJsonFile,
+} from './testUtils';
+
+describe('SentiotecSaunaAccessory', () => {
+  let gateway: MockPronetGateway;
+  let port: number;
+  let api: HomebridgeAPI;
+  let accessories: PlatformAccessory[];
+  let storagePath: string;
+
+  /**
+   * This function creates the platform with one gateway and starts it.
+   * @param saunas the sauna configurations
+   * @param options further options of the gateway
+   */
+  function startPlatform(saunas: { [key: string]: unknown }[] = [{ id: 0, name: 'Sauna' }], options: { [key: string]: unknown } = {}) {
+    new SentiotecPlatform(createLogger(), {
+      platform: 'Sentiotec Sauna Control Plugin',
+      gateways: [{
+        ip: '127.0.0.1',
+        port,
+        serial: 'SN1234',
+        password: 'sentiotec',
+        persistent: true,
+        saunas,
+        ...options,
+      }],
+    }, api);
+    api.signalFinished();
+  }
+
+  /**
+   * This function waits until the values of the gateway arrived at the thermostat.
+   */
+  function waitForData(): Promise<void> {
+    const thermostat = accessories[0].getService(api.hap.Service.Thermostat)!;
+    const characteristic = thermostat.getCharacteristic(api.hap.Characteristic.TargetTemperature);
+    return waitFor(() => characteristic.value === 90);
+  }
+
+  beforeAll(() => {
+    storagePath = fs.mkdtempSync(path.join(os.tmpdir(), 'sentiotec-'));
+    User.setStoragePath(storagePath);
+  });
+
+  afterAll(() => {
+    fs.rmSync(storagePath, { recursive: true, force: true });
+  });
+
+  beforeEach(async () => {
+    // a storage path per test, as the files of a test (e.g. the Eve history or the runtime) may still be written on its shutdown
+    jest.spyOn(User, 'storagePath').mockReturnValue(fs.mkdtempSync(path.join(storagePath, 'test-')));
+    gateway = new MockPronetGateway({ serial: 'SN1234', password: 'sentiotec' });
+    port = await gateway.start();
+    api = new HomebridgeAPI();
+    accessories = [];
+    api.on(InternalAPIEvent.REGISTER_PLATFORM_ACCESSORIES, (registered: PlatformAccessory[]) => accessories.push(...registered));
+  });
+
+  afterEach(async () => {
+    api.signalShutdown();
+    await gateway.stop();
+    jest.restoreAllMocks();
+  });
+
+  it('creates one accessory per sauna sharing one connection', async () => {
+    startPlatform([{ id: 0, name: 'Sauna' }, { id: 1, name: 'Infrared' }]);
+    expect(accessories.map((accessory) => accessory.displayName)).toEqual(['Sauna', 'Infrared']);
+    expect(accessories[0].UUID).toBe(api.hap.uuid.generate('SN1234/0'));
+    await waitForData();
+    expect(gateway.connectionCount).toBe(1);
+  });
+
+  it('restores cached accessories', async () => {
+    const cached = new api.platformAccessory('Old Name', api.hap.uuid.generate('SN1234/0'));
+    const platform = new SentiotecPlatform(createLogger(), {
+      platform: 'Sentiotec Sauna Control Plugin',
+      gateways: [{ ip: '127.0.0.1', port, serial: 'SN1234', password: 'sentiotec', saunas: [{ id: 0, name: 'Sauna' }] }],
+    }, api);
+    platform.configureAccessory(cached);
+    api.signalFinished();
+    expect(accessories).toHaveLength(0);
+    expect(cached.context.sauna).toEqual({ id: 0, name: 'Sauna' });
+  });
+
+  it('shows the values of the gateway on the thermostat', async () => {
+    startPlatform();
+    await waitForData();
+    const thermostat = accessories[0].getService(api.hap.Service.Thermostat)!;
+    expect(thermostat.getCharacteristic(api.hap.Characteristic.CurrentTemperature).value).toBe(22);
+    expect(thermostat.getCharacteristic(api.hap.Characteristic.TargetHeatingCoolingState).value)
+      .toBe(api.hap.Characteristic.TargetHeatingCoolingState.OFF);
+
+    gateway.setValue(0, SaunaCharacteristics.CURRENT_TEMPERATURE.id, '64');
+    gateway.setValue(0, SaunaCharacteristics.ACTIVE.id, '1');
+    await waitFor(() => thermostat.getCharacteristic(api.hap.Characteristic.CurrentTemperature).value === 64);
+    expect(thermostat.getCharacteristic(api.hap.Characteristic.CurrentHeatingCoolingState).value)
+      .toBe(api.hap.Characteristic.CurrentHeatingCoolingState.HEAT);
+  });
+
+  it('does not use the unverified addresses by default', async () => {
+    gateway.setValue(0, SaunaCharacteristics.VAPORIZER_INSTALLED.id, '1');
+    gateway.setValue(0, SaunaCharacteristics.FAULT_CODE.id, '3');
+    startPlatform([{ id: 0, name: 'Sauna', light: true }]);
+    await waitForData();
+    const thermostat = accessories[0].getService(api.hap.Service.Thermostat)!;
+    expect(thermostat.getCharacteristic(api.hap.Characteristic.StatusFault).value).toBe(api.hap.Characteristic.StatusFault.NO_FAULT);
+    expect(thermostat.testCharacteristic(api.hap.Characteristic.SetDuration)).toBe(false);
+    expect(accessories[0].getServiceById(api.hap.Service.ContactSensor, 'fault')).toBeUndefined();
+    expect(accessories[0].getServiceById(api.hap.Service.Lightbulb, 'light')).toBeUndefined();
+    expect(accessories[0].getService(api.hap.Service.HumidifierDehumidifier)).toBeUndefined();
+  });
+
+  it('shows the manufacturer and the model reported by the controller', async () => {
+    gateway.setValue(0, SaunaCharacteristics.CONTROLLER_MODEL.id, 'Pronet 2');
+    startPlatform([{ id: 0, name: 'Sauna' }], { unverifiedAddresses: true });
+    await waitForData();
+    const information = accessories[0].getService(api.hap.Service.AccessoryInformation)!;
+    expect(information.getCharacteristic(api.hap.Characteristic.Manufacturer).value).toBe('Sentiotec');
+    expect(information.getCharacteristic(api.hap.Characteristic.Model).value).toBe('Pronet 2');
+    expect(information.getCharacteristic(api.hap.Characteristic.FirmwareRevision).value).toBe('2.1.0');
+  });
+
+  it('shows the model of the profile if the controller does not report a model', async () => {
+    startPlatform();
+    await waitForData();
+    const information = accessories[0].getService(api.hap.Service.AccessoryInformation)!;
+    expect(information.getCharacteristic(api.hap.Characteristic.Model).value).toBe('Pronet');
+  });
+
+  it('writes the target temperature and state set in HomeKit', async () => {
+    startPlatform();
+    await waitForData();
+    const thermostat = accessories[0].getService(api.hap.Service.Thermostat)!;
+    await thermostat.getCharacteristic(api.hap.Characteristic.TargetTemperature).handleSetRequest(80);
+    await thermostat.getCharacteristic(api.hap.Characteristic.TargetHeatingCoolingState)
+      .handleSetRequest(api.hap.Characteristic.TargetHeatingCoolingState.HEAT);
+    await waitFor(() => gateway.writes.length === 2);
+    expect(gateway.writes).toEqual([
+      { addr: '183/0/2', value: 80 },
+      { addr: '183/0/1', value: 1 },
+    ]);
+  });
+
+  it('reverts a target temperature clamped by the controller', async () => {
+    startPlatform();
+    await waitForData();
+    gateway.faults.clampWrites = 100;
+    const targetTemperature = accessories[0].getService(api.hap.Service.Thermostat)!
+      .getCharacteristic(api.hap.Characteristic.TargetTemperature);
+    await targetTemperature.handleSetRequest(110);
+    await waitFor(() => targetTemperature.value === 100);
+  });
+
+  it('reports a write which is not confirmed to HomeKit', async () => {
+    startPlatform();
+    await waitForData();
+    gateway.faults.ignoreWrites = true;
+    const targetState = accessories[0].getService(api.hap.Service.Thermostat)!
+      .getCharacteristic(api.hap.Characteristic.TargetHeatingCoolingState);
+    await expect(targetState.handleSetRequest(api.hap.Characteristic.TargetHeatingCoolingState.HEAT))
+      .rejects.toBe(api.hap.HAPStatus.SERVICE_COMMUNICATION_FAILURE);
+    expect(targetState.value).toBe(api.hap.Characteristic.TargetHeatingCoolingState.OFF);
+  }, 10000);
+
+  it('refuses a start while the cabin door is open', async () => {
+    gateway.setValue(0, SaunaCharacteristics.DOOR_OPEN.id, '1');
+    startPlatform([{ id: 0, name: 'Sauna', doorCheck: true }], { unverifiedAddresses: true });
+    await waitForData();
+    const targetState = accessories[0].getService(api.hap.Service.Thermostat)!
+      .getCharacteristic(api.hap.Characteristic.TargetHeatingCoolingState);
+    await expect(targetState.handleSetRequest(api.hap.Characteristic.TargetHeatingCoolingState.HEAT))
+      .rejects.toBe(api.hap.HAPStatus.NOT_ALLOWED_IN_CURRENT_STATE);
+    expect(gateway.writes).toEqual([]);
+  });
+
+  it('refuses a start from an untrusted controller', async () => {
+    startPlatform([{ id: 0, name: 'Sauna', trustedControllers: ['192.168.1.20'] }]);
+    await waitForData();
+    const targetState = accessories[0].getService(api.hap.Service.Thermostat)!
+      .getCharacteristic(api.hap.Characteristic.TargetHeatingCoolingState);
+    const heat = api.hap.Characteristic.TargetHeatingCoolingState.HEAT;
+    await expect(targetState.handleSetRequest(heat, { remoteAddress: '::ffff:192.168.1.30' } as never))
+      .rejects.toBe(api.hap.HAPStatus.NOT_ALLOWED_IN_CURRENT_STATE);
+    await targetState.handleSetRequest(heat, { remoteAddress: '::ffff:192.168.1.20' } as never);
+    expect(gateway.writes).toEqual([{ addr: '183/0/1', value: 1 }]);
+  });
+
+  it('limits the target temperature to the configured range', async () => {
+    startPlatform([{ id: 0, name: 'Infrared', minTemperature: 40, maxTemperature: 70, temperatureStep: 5 }]);
+    const targetTemperature = accessories[0].getService(api.hap.Service.Thermostat)!
+      .getCharacteristic(api.hap.Characteristic.TargetTemperature);
+    expect(targetTemperature.props).toMatchObject({ minValue: 40, maxValue: 70, minStep: 5 });
+    // the device value of 90 °C is outside of the range
+    await waitFor(() => targetTemperature.value === 70);
+    await targetTemperature.handleSetRequest(62);
+    await waitFor(() => targetTemperature.value === 60);
+    expect(gateway.writes).toEqual([{ addr: '183/0/2', value: 60 }]);
+  });
+
+  it('remembers the temperature display units', async () => {
+    startPlatform();
+    const displayUnits = accessories[0].getService(api.hap.Service.Thermostat)!
+      .getCharacteristic(api.hap.Characteristic.TemperatureDisplayUnits);
+    await expect(displayUnits.handleGetRequest()).resolves.toBe(api.hap.Characteristic.TemperatureDisplayUnits.CELSIUS);
+    await displayUnits.handleSetRequest(api.hap.Characteristic.TemperatureDisplayUnits.FAHRENHEIT);
+    expect(accessories[0].context.temperatureDisplayUnits).toBe(api.hap.Characteristic.TemperatureDisplayUnits.FAHRENHEIT);
+    await expect(displayUnits.handleGetRequest()).resolves.toBe(api.hap.Characteristic.TemperatureDisplayUnits.FAHRENHEIT);
+  });
+
+  it('shows the vaporizer only if one is installed', async () => {
+    startPlatform([{ id: 0, name: 'Sauna' }], { unverifiedAddresses: true });
+    await waitForData();
+    expect(accessories[0].getService(api.hap.Service.HumidifierDehumidifier)).toBeUndefined();
+
+    gateway.setValue(0, SaunaCharacteristics.VAPORIZER_INSTALLED.id, '1');
+    await waitFor(() => accessories[0].getService(api.hap.Service.HumidifierDehumidifier) !== undefined);
+    const humiditySensor = accessories[0].getService(api.hap.Service.HumiditySensor)!;
+    gateway.setValue(0, SaunaCharacteristics.CURRENT_HUMIDITY.id, '45');
+    await waitFor(() => humiditySensor.getCharacteristic(api.hap.Characteristic.CurrentRelativeHumidity).value === 45);
+
+    gateway.setValue(0, SaunaCharacteristics.VAPORIZER_INSTALLED.id, '0');
+    await waitFor(() => accessories[0].getService(api.hap.Service.HumiditySensor) === undefined);
+  });
+
+  it('switches the enabled outputs', async () => {
+    startPlatform([{ id: 0, name: 'Sauna', light: true }], { unverifiedAddresses: true });
+    await waitForData();
+    expect(accessories[0].getServiceById(api.hap.Service.Fan, 'fan')).toBeUndefined();
+    const light = accessories[0].getServiceById(api.hap.Service.Lightbulb, 'light')!;
+    await light.getCharacteristic(api.hap.Characteristic.On).handleSetRequest(true);
+    await light.getCharacteristic(api.hap.Characteristic.Brightness).handleSetRequest(40);
+    await waitFor(() => gateway.writes.length === 2);
+    expect(gateway.writes).toEqual([
+      { addr: '183/0/5', value: 1 },
+      { addr: '183/0/6', value: 40 },
+    ]);
+  });
+
+  it('shows the sauna as inactive while the connection is lost', async () => {
+    startPlatform();
+    await waitForData();
+    const statusActive = accessories[0].getService(api.hap.Service.Thermostat)!.getCharacteristic(api.hap.Characteristic.StatusActive);
+    expect(statusActive.value).toBe(true);
+    gateway.dropConnections();
+    await waitFor(() => statusActive.value === false);
+    await waitFor(() => statusActive.value === true);
+  });
+
+  it('reports no response without a fresh value', async () => {
+    await gateway.stop();
+    startPlatform();
+    const currentTemperature = accessories[0].getService(api.hap.Service.Thermostat)!
+      .getCharacteristic(api.hap.Characteristic.CurrentTemperature);
+    await expect(currentTemperature.handleGetRequest()).rejects.toBe(api.hap.HAPStatus.SERVICE_COMMUNICATION_FAILURE);
+  });
+
+  it('shows the last known values while reconnecting', async () => {
+    startPlatform();
+    await waitForData();
+    const thermostat = accessories[0].getService(api.hap.Service.Thermostat)!;
+    const statusActive = thermostat.getCharacteristic(api.hap.Characteristic.StatusActive);
+    gateway.faults.rejectAuth = true;
+    gateway.dropConnections();
+    await waitFor(() => statusActive.value === false);
+    await expect(thermostat.getCharacteristic(api.hap.Characteristic.CurrentTemperature).handleGetRequest()).resolves.toBe(22);
+  });
+
+  it('shows the estimated power consumption and records the session', async () => {
+    startPlatform([{ id: 0, name: 'Sauna', heaterPower: 9000 }]);
+    await waitForData();
+    const thermostat = accessories[0].getService(api.hap.Service.Thermostat)!;
+    const power = thermostat.characteristics.find((characteristic) => characteristic.displayName === 'Consumption')!;
+    expect(power.value).toBe(0);
+    // without the unverified address of the heater relay, the heater counts as on while the sauna is switched on
+    gateway.setValue(0, SaunaCharacteristics.ACTIVE.id, '1');
+    await waitFor(() => power.value === 9000);
+    gateway.setValue(0, SaunaCharacteristics.ACTIVE.id, '0');
+    await waitFor(() => power.value === 0);
+    const file = path.join(User.storagePath(), 'sentiotec', 'SN1234-0.json');
+    await expect(waitForJsonFile(file)).resolves.toMatchObject({ sessions: 1 });
+    expect(accessories[0].services.some((service) => service.UUID === 'E863F007-079E-48FF-8F27-9C2605A29F52')).toBe(true);
+  });
+
+  it('opens the fault sensor on a critical fault', async () => {
+    startPlatform([{ id: 0, name: 'Sauna' }], { unverifiedAddresses: true });
+    await waitForData();
+    const faultSensor = accessories[0].getServiceById(api.hap.Service.ContactSensor, 'fault')!;
+    const thermostat = accessories[0].getService(api.hap.Service.Thermostat)!;
+    expect(thermostat.getCharacteristic(api.hap.Characteristic.StatusActive).value).toBe(true);
+
+    gateway.setValue(0, SaunaCharacteristics.FAULT_CODE.id, '3');
+    await waitFor(() => faultSensor.getCharacteristic(api.hap.Characteristic.ContactSensorState).value ===
+      api.hap.Characteristic.ContactSensorState.CONTACT_NOT_DETECTED);
+    expect(thermostat.getCharacteristic(api.hap.Characteristic.StatusFault).value).toBe(api.hap.Characteristic.StatusFault.GENERAL_FAULT);
+    expect(thermostat.getCharacteristic(api.hap.Characteristic.StatusActive).value).toBe(false);
+  });
+});
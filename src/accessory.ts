@@ -1,54 +1,75 @@
 import {
-  AccessoryConfig,
-  AccessoryPlugin,
-  API,
-  CharacteristicEventTypes,
-  CharacteristicGetCallback,
   Characteristic,
-  HAP,
-  Logging,
+  Logger,
+  PlatformAccessory,
   Service,
+  WithUUID,
 } from 'homebridge';
 import {
-  SaunaCharacteristic,
+  ConnectionState,
   SentiotecAPI,
 } from './websocket';
-
-
-/**
- * Configuration schema https://developers.homebridge.io/#/config-schema
- */
+import {
+  SaunaCharacteristic,
+  SaunaCharacteristics,
+  SaunaValue,
+} from './characteristics';
+import {
+  GatewayConfig,
+  SaunaConfig,
+  ScheduleConfig,
+} from './settings';
+import { SentiotecPlatform } from './platform';
+import { HeatUpEstimator } from './heatup';
+import {
+  SaunaFault,
+  decodeFault,
+} from './faults';
+import {
+  SaunaScheduler,
+  ScheduledSauna,
+} from './scheduler';
+import {
+  ThermoHistory,
+  UsageStatistics,
+} from './statistics';
+import { EVE_HISTORY_UUID } from './eve';
+import {
+  RequestOrigin,
+  SafetyPolicy,
+} from './safety';
+import { SaunaRules } from './rules';
+import path from 'path';
 
-/**
- * This example was derived from the Homebridge Accessory template.
- */
-let hap: HAP;
 /**
  * the maximum sauna temperature
  */
 const MAX_TEMPERATURE = 120;
 /**
- * the minimum target temperature
+ * the default minimum target temperature
  */
-const MIN_TARGET_TEMPERATURE = 50;
+const DEFAULT_MIN_TARGET_TEMPERATURE = 50;
 /**
  * the minimum current temperature
  */
 const MIN_CURRENT_TEMPERATURE = -20;
-
-/*
- * Initializer function called when the plugin is loaded.
+/**
+ * the default tolerance below the target temperature for the sauna to be ready (°C)
+ */
+const DEFAULT_READY_TOLERANCE = 5;
+/**
+ * the default maximum age of the last known values shown while the gateway is unreachable (5 min in sec)
  */
-export = (api: API) => {
-  hap = api.hap;
-  api.registerAccessory('Sentiotec Sauna Control Plugin', SentiotecSaunaAccessory);
-};
+const DEFAULT_MAX_VALUE_AGE = 300;
 
-class SentiotecSaunaAccessory implements AccessoryPlugin {
+/**
+ * This class represents a single sauna (cabin) as a platform accessory.
+ */
+export class SentiotecSaunaAccessory implements ScheduledSauna {
   /**
    * the general log file
    */
-  private readonly log: Logging;
+  private readonly log: Logger;
   /**
    * the general information service
    */
@@ -58,21 +79,155 @@ class SentiotecSaunaAccessory implements AccessoryPlugin {
    */
   private readonly thermostatService: Service;
   /**
-   * the Sentiotec websocket API
+   * the vaporizer (humidifier) service (only if a vaporizer is installed)
+   */
+  private humidifierService?: Service;
+  /**
+   * the humidity sensor service (only if a vaporizer is installed)
+   */
+  private humiditySensorService?: Service;
+  /**
+   * the services of the switchable outputs (light, fan, aux) by the ID of their on/off characteristic
+   */
+  private readonly outputServices: Map<number, Service> = new Map();
+  /**
+   * the services of the outputs with a level (light brightness, fan speed) by the ID of their level characteristic
+   */
+  private readonly levelServices: Map<number, { service: Service; levelType: WithUUID<new () => Characteristic> }> = new Map();
+  /**
+   * the safety policy deciding about remote starts and enforcing the maximum runtime
+   */
+  public readonly safetyPolicy: SafetyPolicy;
+  /**
+   * the estimator for the heat-up time (learned from the current temperature)
+   */
+  private readonly heatUpEstimator: HeatUpEstimator;
+  /**
+   * the scheduler starting the sauna for the configured schedules
+   */
+  private readonly scheduler: SaunaScheduler;
+  /**
+   * the rules engine changing the target temperature or switching the sauna off
+   */
+  private readonly rules: SaunaRules;
+  /**
+   * the sensor signalling that the sauna is ready (if configured)
+   */
+  private readySensorService?: Service;
+  /**
+   * the tolerance below the target temperature for the sauna to be ready
+   */
+  private readonly readyTolerance: number;
+  /**
+   * indicates that the sauna has been reported as ready
+   */
+  private ready = false;
+  /**
+   * the last logged estimation of the minutes to ready
+   */
+  private lastMinutesToReady?: number;
+  /**
+   * the usage statistics (sessions and energy consumption)
+   */
+  private statistics!: UsageStatistics;
+  /**
+   * the power of the heater in W (0, if unknown)
+   */
+  private heaterPower = 0;
+  /**
+   * the minimum target temperature
+   */
+  private readonly minTargetTemperature: number;
+  /**
+   * the maximum target temperature
+   */
+  private readonly maxTargetTemperature: number;
+  /**
+   * the step size of the target temperature
+   */
+  private readonly targetTemperatureStep: number;
+  /**
+   * the sensor signalling a critical fault (if configured)
+   */
+  private faultSensorService?: Service;
+  /**
+   * the fault currently reported by the controller
+   */
+  private fault?: SaunaFault;
+  /**
+   * indicates that the sauna reported to be connected to the gateway
+   */
+  private saunaConnected = false;
+  /**
+   * indicates that the gateway has been reachable on the last request
+   */
+  private reachable = true;
+  /**
+   * the maximum age in ms of the last known values shown while the gateway is unreachable
+   */
+  private readonly maxValueAge: number;
+  /**
+   * the name of the sauna
+   */
+  private readonly name: string;
+  /**
+   * the Sentiotec websocket API (shared with the other saunas of the gateway)
    */
   private sentioAPI: SentiotecAPI;
+  /**
+   * the ID of the sauna on the gateway
+   */
+  private readonly saunaID: number;
+  /**
+   * indicates that the connection to the gateway is kept open (so a closed connection means that the values are outdated)
+   */
+  private readonly persistent: boolean;
 
   /**
-   * the constructor from the HAP API
+   * the constructor
+   * @param platform the platform creating this accessory
+   * @param accessory the (new or cached) platform accessory
+   * @param sentioAPI the API of the gateway the sauna is connected to
+   * @param gatewayConfig the configuration of the gateway
+   * @param saunaConfig the configuration of the sauna
    */
-  constructor(log: Logging, config: AccessoryConfig) {
-    this.sentioAPI = new SentiotecAPI(log, config);
-    this.log = log;
+  constructor(
+    private readonly platform: SentiotecPlatform,
+    private readonly accessory: PlatformAccessory,
+    sentioAPI: SentiotecAPI,
+    gatewayConfig: GatewayConfig,
+    saunaConfig: SaunaConfig,
+  ) {
+    this.sentioAPI = sentioAPI;
+    this.log = platform.log;
+    this.saunaID = saunaConfig.id;
+    this.name = saunaConfig.name;
+    this.persistent = gatewayConfig.persistent === true;
+    this.safetyPolicy = new SafetyPolicy(this.log, sentioAPI, saunaConfig, path.join(this.platform.api.user.storagePath(), 'sentiotec',
+      gatewayConfig.serial + '-' + saunaConfig.id + '-runtime.json'));
+    this.maxValueAge = (gatewayConfig.maxValueAge !== undefined ? gatewayConfig.maxValueAge : DEFAULT_MAX_VALUE_AGE) * 1000;
+
+    // the limits of the target temperature within the limits of the controller
+    const controllerMin = SaunaCharacteristics.TARGET_TEMPERATURE.minValue!;
+    const controllerMax = SaunaCharacteristics.TARGET_TEMPERATURE.maxValue!;
+    this.minTargetTemperature = Math.max(controllerMin, saunaConfig.minTemperature !== undefined ?
+      saunaConfig.minTemperature : DEFAULT_MIN_TARGET_TEMPERATURE);
+    this.maxTargetTemperature = Math.min(controllerMax, saunaConfig.maxTemperature !== undefined ?
+      saunaConfig.maxTemperature : controllerMax);
+    if (this.minTargetTemperature >= this.maxTargetTemperature) {
+      this.log.error('Invalid target temperature range ' + this.minTargetTemperature + '-' + this.maxTargetTemperature + ' °C for "' +
+        this.name + '", using ' + DEFAULT_MIN_TARGET_TEMPERATURE + '-' + controllerMax + ' °C');
+      this.minTargetTemperature = DEFAULT_MIN_TARGET_TEMPERATURE;
+      this.maxTargetTemperature = controllerMax;
+    }
+    this.targetTemperatureStep = saunaConfig.temperatureStep !== undefined && saunaConfig.temperatureStep > 0 ?
+      saunaConfig.temperatureStep : 1;
 
-    this.thermostatService = new hap.Service.Thermostat(config.name);
+    this.thermostatService = this.accessory.getService(this.platform.Service.Thermostat) ||
+      this.accessory.addService(this.platform.Service.Thermostat, saunaConfig.name);
 
     // current temperature
-    this.thermostatService.getCharacteristic(hap.Characteristic.CurrentTemperature)
+    this.thermostatService.getCharacteristic(this.platform.Characteristic.CurrentTemperature)
       .onGet(this.getCurrentTemperature.bind(this))
       .setProps({
         minValue: MIN_CURRENT_TEMPERATURE,
@@ -80,205 +235,1136 @@ class SentiotecSaunaAccessory implements AccessoryPlugin {
         minStep: 1,
       });
     // target temperature
-    this.thermostatService.getCharacteristic(hap.Characteristic.TargetTemperature)
+    this.thermostatService.getCharacteristic(this.platform.Characteristic.TargetTemperature)
       .onGet(this.getTargetTemperature.bind(this))
       .onSet(this.setTargetTemperatur.bind(this))
       .setProps({
-        minValue: MIN_TARGET_TEMPERATURE,
-        maxValue: MAX_TEMPERATURE,
-        minStep: 1,
-      });
-    // temperature units
-    this.thermostatService.getCharacteristic(hap.Characteristic.TemperatureDisplayUnits)
-      .on(CharacteristicEventTypes.GET, (callback: CharacteristicGetCallback) => {
-        log.info('Getting sauna temperature units in Celsium (cannot be changed)');
-        callback(undefined, hap.Characteristic.TemperatureDisplayUnits.CELSIUS);
+        minValue: this.minTargetTemperature,
+        maxValue: this.maxTargetTemperature,
+        minStep: this.targetTemperatureStep,
       });
+    // temperature units (only used for the display, the temperatures are always in Celsius)
+    this.thermostatService.getCharacteristic(this.platform.Characteristic.TemperatureDisplayUnits)
+      .onGet(this.getTemperatureDisplayUnits.bind(this))
+      .onSet(this.setTemperatureDisplayUnits.bind(this));
     // cooling/heating state
-    this.thermostatService.getCharacteristic(hap.Characteristic.CurrentHeatingCoolingState)
+    this.thermostatService.getCharacteristic(this.platform.Characteristic.CurrentHeatingCoolingState)
       .onGet(this.getCurrentState.bind(this));
     // target cooling/heating state
-    this.thermostatService.getCharacteristic(hap.Characteristic.TargetHeatingCoolingState)
+    this.thermostatService.getCharacteristic(this.platform.Characteristic.TargetHeatingCoolingState)
       .onGet(this.getTargetState.bind(this))
       .onSet(this.setTargetState.bind(this));
-    this.informationService = new hap.Service.AccessoryInformation()
-      .setCharacteristic(hap.Characteristic.Manufacturer, 'Sentiotec')
-      .setCharacteristic(hap.Characteristic.Model, 'Pronet')
-      .setCharacteristic(hap.Characteristic.Name, config.name)
-      .setCharacteristic(hap.Characteristic.SerialNumber, config.serial)
-      .setCharacteristic(hap.Characteristic.ProductData, 'Sauna heater with Pronet Web interface');
+    // heating duration (auto-off timer of the controller) and remaining heating time
+    if (this.sentioAPI.supports(SaunaCharacteristics.HEATING_DURATION)) {
+      this.thermostatService.addOptionalCharacteristic(this.platform.Characteristic.SetDuration);
+      this.thermostatService.getCharacteristic(this.platform.Characteristic.SetDuration)
+        .onGet(this.getHeatingDuration.bind(this))
+        .onSet(this.setHeatingDuration.bind(this))
+        .setProps({
+          maxValue: SaunaCharacteristics.HEATING_DURATION.maxValue! * 60,
+          minStep: 60,
+        });
+    } else {
+      this.removeOptionalCharacteristic(this.thermostatService, this.platform.Characteristic.SetDuration);
+    }
+    if (this.sentioAPI.supports(SaunaCharacteristics.REMAINING_TIME)) {
+      this.thermostatService.addOptionalCharacteristic(this.platform.Characteristic.RemainingDuration);
+      this.thermostatService.getCharacteristic(this.platform.Characteristic.RemainingDuration)
+        .onGet(this.getRemainingDuration.bind(this))
+        .setProps({
+          maxValue: SaunaCharacteristics.REMAINING_TIME.maxValue! * 60,
+        });
+    } else {
+      this.removeOptionalCharacteristic(this.thermostatService, this.platform.Characteristic.RemainingDuration);
+    }
+    // fault and status
+    this.thermostatService.addOptionalCharacteristic(this.platform.Characteristic.StatusFault);
+    this.thermostatService.addOptionalCharacteristic(this.platform.Characteristic.StatusActive);
+    this.thermostatService.getCharacteristic(this.platform.Characteristic.StatusFault)
+      .onGet(() => this.convertStatusFault(this.fault));
+    this.thermostatService.getCharacteristic(this.platform.Characteristic.StatusActive)
+      .onGet(() => this.isStatusActive());
+    this.informationService = this.accessory.getService(this.platform.Service.AccessoryInformation)!
+      .setCharacteristic(this.platform.Characteristic.Manufacturer, sentioAPI.getProfile().manufacturer)
+      .setCharacteristic(this.platform.Characteristic.Model, sentioAPI.getProfile().model)
+      .setCharacteristic(this.platform.Characteristic.Name, saunaConfig.name)
+      .setCharacteristic(this.platform.Characteristic.SerialNumber, gatewayConfig.serial + '-' + saunaConfig.id)
+      .setCharacteristic(this.platform.Characteristic.ProductData, 'Sauna heater with Pronet Web interface');
     // Firmware
-    this.informationService.getCharacteristic(hap.Characteristic.FirmwareRevision)
+    this.informationService.getCharacteristic(this.platform.Characteristic.FirmwareRevision)
       .onGet(this.getFirmwareVersion.bind(this));
 
-    log.info('Sauna finished initializing');
+    // vaporizer services restored from the cache, the installation is checked again with every update from the gateway
+    if (this.accessory.getService(this.platform.Service.HumidifierDehumidifier) !== undefined) {
+      this.setupVaporizerServices(this.sentioAPI.supports(SaunaCharacteristics.VAPORIZER_INSTALLED) &&
+        this.sentioAPI.supports(SaunaCharacteristics.VAPORIZER));
+    }
+
+    // switchable outputs
+    this.setupOutputService(saunaConfig.light === true, this.platform.Service.Lightbulb, 'light', 'Light',
+      SaunaCharacteristics.LIGHT, SaunaCharacteristics.LIGHT_BRIGHTNESS, this.platform.Characteristic.Brightness);
+    this.setupOutputService(saunaConfig.fan === true, this.platform.Service.Fan, 'fan', 'Fan',
+      SaunaCharacteristics.FAN, SaunaCharacteristics.FAN_SPEED, this.platform.Characteristic.RotationSpeed);
+    this.setupOutputService(saunaConfig.aux === true, this.platform.Service.Switch, 'aux', 'AUX',
+      SaunaCharacteristics.AUX);
+
+    // schedules (the learned heating curve and the enabled schedules are kept in the accessory context)
+    this.accessory.context.heatUp = this.accessory.context.heatUp || {};
+    this.accessory.context.schedules = this.accessory.context.schedules || {};
+    this.heatUpEstimator = new HeatUpEstimator(this.log, this.accessory.context.heatUp);
+    this.scheduler = new SaunaScheduler(this.log, saunaConfig.schedules || [], this.accessory.context.schedules,
+      this.heatUpEstimator, this, path.join(this.platform.api.user.storagePath(), 'sentiotec',
+        gatewayConfig.serial + '-' + saunaConfig.id + '-schedules.json'));
+    this.setupScheduleServices();
+    this.scheduler.start();
+
+    // rules (the enabled rules are kept in the accessory context)
+    this.accessory.context.rules = this.accessory.context.rules || {};
+    this.rules = new SaunaRules(this.log, sentioAPI, saunaConfig, this.accessory.context.rules, this.limitTargetTemperature.bind(this),
+      path.join(this.platform.api.user.storagePath(), 'sentiotec', gatewayConfig.serial + '-' + saunaConfig.id + '-rules.json'));
+    this.setupRuleServices();
+    this.rules.start();
+
+    // fault sensor (only if the fault code is read)
+    this.setupFaultSensor(saunaConfig.faultSensor !== false && sentioAPI.supports(SaunaCharacteristics.FAULT_CODE));
+
+    // ready sensor
+    this.readyTolerance = saunaConfig.readyTolerance !== undefined ? saunaConfig.readyTolerance : DEFAULT_READY_TOLERANCE;
+    this.setupReadySensor(saunaConfig.readySensor || 'none');
+
+    // usage statistics and Eve history
+    this.setupStatistics(gatewayConfig.serial + '-' + saunaConfig.id, saunaConfig.heaterPower || 0, saunaConfig.history !== false);
+
+    // values pushed by the gateway
+    this.sentioAPI.on('update', this.onUpdate.bind(this));
+    this.sentioAPI.on('state', this.onStateChange.bind(this));
+
+    this.log.info('Sauna "' + saunaConfig.name + '" finished initializing');
+  }
+
+  /**
+   * This function adds or removes the vaporizer services depending on the installation of a vaporizer.
+   * @param installed indicates that a vaporizer is installed
+   */
+  private setupVaporizerServices(installed: boolean) {
+    const Service = this.platform.Service;
+    const Characteristic = this.platform.Characteristic;
+    if (!installed) {
+      if (this.humidifierService !== undefined || this.accessory.getService(Service.HumidifierDehumidifier) !== undefined) {
+        this.log.info('No vaporizer installed in "' + this.name + '", removing the humidity services');
+      }
+      [Service.HumidifierDehumidifier, Service.HumiditySensor].forEach((serviceType) => {
+        const service = this.accessory.getService(serviceType);
+        if (service !== undefined) {
+          this.accessory.removeService(service);
+        }
+      });
+      this.humidifierService = undefined;
+      this.humiditySensorService = undefined;
+      return;
+    }
+    if (this.humidifierService !== undefined) {
+      // already set up
+      return;
+    }
+
+    this.humidifierService = this.accessory.getService(Service.HumidifierDehumidifier) ||
+      this.accessory.addService(Service.HumidifierDehumidifier, this.name + ' Vaporizer');
+    // vaporizer on/off
+    this.humidifierService.getCharacteristic(Characteristic.Active)
+      .onGet(this.getVaporizerActive.bind(this))
+      .onSet(this.setVaporizerActive.bind(this));
+    // humidifying state
+    this.humidifierService.getCharacteristic(Characteristic.CurrentHumidifierDehumidifierState)
+      .onGet(this.getVaporizerState.bind(this));
+    // the vaporizer can only humidify
+    this.humidifierService.getCharacteristic(Characteristic.TargetHumidifierDehumidifierState)
+      .setProps({
+        validValues: [Characteristic.TargetHumidifierDehumidifierState.HUMIDIFIER],
+      })
+      .onGet(() => Characteristic.TargetHumidifierDehumidifierState.HUMIDIFIER);
+    // current humidity
+    this.humidifierService.getCharacteristic(Characteristic.CurrentRelativeHumidity)
+      .onGet(this.getCurrentHumidity.bind(this, this.humidifierService));
+    // target humidity
+    this.humidifierService.getCharacteristic(Characteristic.RelativeHumidityHumidifierThreshold)
+      .onGet(this.getTargetHumidity.bind(this))
+      .onSet(this.setTargetHumidity.bind(this));
+
+    this.humiditySensorService = this.accessory.getService(Service.HumiditySensor) ||
+      this.accessory.addService(Service.HumiditySensor, this.name + ' Humidity');
+    this.humiditySensorService.getCharacteristic(Characteristic.CurrentRelativeHumidity)
+      .onGet(this.getCurrentHumidity.bind(this, this.humiditySensorService));
+  }
+
+  /**
+   * This function adds or removes the service of a switchable output (outputs not supported by the controller are removed).
+   * @param enabled indicates that the output is enabled in the configuration
+   * @param serviceType the HomeKit service type
+   * @param subtype the subtype of the service
+   * @param suffix the suffix of the service name
+   * @param onCharacteristic the on/off characteristic of the output
+   * @param levelCharacteristic the level characteristic of the output (if any)
+   * @param levelType the HomeKit characteristic type for the level
+   */
+  private setupOutputService(enabled: boolean, serviceType: WithUUID<typeof Service>, subtype: string, suffix: string,
+    onCharacteristic: SaunaCharacteristic<boolean>, levelCharacteristic?: SaunaCharacteristic<number>,
+    levelType?: WithUUID<new () => Characteristic>) {
+    let service = this.accessory.getServiceById(serviceType, subtype);
+    if (enabled && !onCharacteristic.verified && !this.sentioAPI.supports(onCharacteristic)) {
+      this.log.warn('The address of "' + onCharacteristic.name + '" has not been verified, ignoring the option ' + subtype + ' of "' +
+        this.name + '" (enable unverifiedAddresses to use it)');
+      enabled = false;
+    } else if (enabled && !this.sentioAPI.supports(onCharacteristic)) {
+      this.log.warn('The ' + this.sentioAPI.getProfile().model + ' controller does not support "' + onCharacteristic.name +
+        '", ignoring the option ' + subtype + ' of "' + this.name + '"');
+      enabled = false;
+    }
+    if (!enabled) {
+      if (service !== undefined) {
+        this.log.info('Removing ' + suffix + ' of "' + this.name + '"');
+        this.accessory.removeService(service);
+      }
+      return;
+    }
+    if (service === undefined) {
+      service = this.accessory.addService(serviceType, this.name + ' ' + suffix, subtype);
+    }
+    const outputService = service;
+    outputService.getCharacteristic(this.platform.Characteristic.On)
+      .onGet(() => this.getCharacteristic(onCharacteristic,
+        this.convertOutputOn.bind(this),
+        outputService.getCharacteristic(this.platform.Characteristic.On),
+      ))
+      .onSet((value) => this.setOutput(onCharacteristic, value as boolean,
+        this.convertOutputOn.bind(this),
+        outputService.getCharacteristic(this.platform.Characteristic.On),
+      ));
+    this.outputServices.set(onCharacteristic.id, outputService);
+    if (levelCharacteristic !== undefined && levelType !== undefined) {
+      outputService.getCharacteristic(levelType)
+        .onGet(() => this.getCharacteristic(levelCharacteristic,
+          this.convertOutputLevel.bind(this),
+          outputService.getCharacteristic(levelType),
+        ))
+        .onSet((value) => this.setOutput(levelCharacteristic, value as number,
+          this.convertOutputLevel.bind(this),
+          outputService.getCharacteristic(levelType),
+        ));
+      this.levelServices.set(levelCharacteristic.id, { service: outputService, levelType });
+    }
+  }
+
+  /**
+   * This function adds a switch per schedule and removes the switches of schedules no longer configured.
+   */
+  private setupScheduleServices() {
+    const subtypes: string[] = [];
+    for (const schedule of this.scheduler.getSchedules()) {
+      const subtype = 'schedule-' + schedule.name;
+      subtypes.push(subtype);
+      const service = this.accessory.getServiceById(this.platform.Service.Switch, subtype) ||
+        this.accessory.addService(this.platform.Service.Switch, this.name + ' ' + schedule.name, subtype);
+      service.getCharacteristic(this.platform.Characteristic.On)
+        .onGet(() => this.scheduler.isEnabled(schedule.name))
+        .onSet((value) => this.scheduler.setEnabled(schedule.name, value as boolean));
+    }
+    this.accessory.services
+      .filter((service) => service.subtype !== undefined && service.subtype.startsWith('schedule-') && !subtypes.includes(service.subtype))
+      .forEach((service) => {
+        this.log.info('Removing schedule switch "' + service.displayName + '"');
+        this.accessory.removeService(service);
+      });
+  }
+
+  /**
+   * This function adds a switch per rule and removes the switches of rules no longer configured.
+   */
+  private setupRuleServices() {
+    const subtypes: string[] = [];
+    for (const rule of this.rules.getRules()) {
+      const subtype = 'rule-' + rule.name;
+      subtypes.push(subtype);
+      const service = this.accessory.getServiceById(this.platform.Service.Switch, subtype) ||
+        this.accessory.addService(this.platform.Service.Switch, this.name + ' ' + rule.name, subtype);
+      service.getCharacteristic(this.platform.Characteristic.On)
+        .onGet(() => this.rules.isEnabled(rule.name))
+        .onSet((value) => this.rules.setEnabled(rule.name, value as boolean));
+    }
+    this.accessory.services
+      .filter((service) => service.subtype !== undefined && service.subtype.startsWith('rule-') && !subtypes.includes(service.subtype))
+      .forEach((service) => {
+        this.log.info('Removing rule switch "' + service.displayName + '"');
+        this.accessory.removeService(service);
+      });
+  }
+
+  /**
+   * This function adds or removes the contact sensor signalling critical faults.
+   * @param enabled indicates that the fault sensor is enabled in the configuration
+   */
+  private setupFaultSensor(enabled: boolean) {
+    const service = this.accessory.getServiceById(this.platform.Service.ContactSensor, 'fault');
+    if (!enabled) {
+      if (service !== undefined) {
+        this.accessory.removeService(service);
+      }
+      return;
+    }
+    this.faultSensorService = service || this.accessory.addService(this.platform.Service.ContactSensor, this.name + ' Fault', 'fault');
+    this.faultSensorService.getCharacteristic(this.platform.Characteristic.ContactSensorState)
+      .onGet(() => this.convertFaultContact(this.fault));
+    this.faultSensorService.getCharacteristic(this.platform.Characteristic.StatusFault)
+      .onGet(() => this.convertStatusFault(this.fault));
+  }
+
+  /**
+   * This function processes a fault code reported by the controller.
+   * @param code the fault code
+   */
+  private updateFault(code: number) {
+    const fault = decodeFault(code);
+    const previous = this.fault;
+    this.fault = fault;
+    if (fault !== undefined && (previous === undefined || previous.code !== fault.code)) {
+      this.log.error('"' + this.name + '" reports ' + fault.severity + ' fault ' + fault.code + ': ' + fault.description);
+    } else if (fault === undefined && previous !== undefined) {
+      this.log.info('"' + this.name + '" fault ' + previous.code + ' (' + previous.description + ') cleared');
+    }
+    const Characteristic = this.platform.Characteristic;
+    this.thermostatService.updateCharacteristic(Characteristic.StatusFault, this.convertStatusFault(fault));
+    this.thermostatService.updateCharacteristic(Characteristic.StatusActive, this.isStatusActive());
+    if (this.faultSensorService !== undefined) {
+      this.faultSensorService.updateCharacteristic(Characteristic.ContactSensorState, this.convertFaultContact(fault));
+      this.faultSensorService.updateCharacteristic(Characteristic.StatusFault, this.convertStatusFault(fault));
+    }
+  }
+
+  /**
+   * This function converts a fault into the status fault.
+   * @param fault the current fault
+   * @returns either GENERAL_FAULT or NO_FAULT
+   */
+  private convertStatusFault(fault?: SaunaFault): number {
+    if (fault !== undefined) {
+      return this.platform.Characteristic.StatusFault.GENERAL_FAULT;
+    } else {
+      return this.platform.Characteristic.StatusFault.NO_FAULT;
+    }
+  }
+
+  /**
+   * This function converts a fault into the state of the fault sensor (open on critical faults).
+   * @param fault the current fault
+   * @returns the contact sensor state
+   */
+  private convertFaultContact(fault?: SaunaFault): number {
+    if (fault !== undefined && fault.severity === 'critical') {
+      return this.platform.Characteristic.ContactSensorState.CONTACT_NOT_DETECTED;
+    } else {
+      return this.platform.Characteristic.ContactSensorState.CONTACT_DETECTED;
+    }
+  }
+
+  /**
+   * This function returns if the sauna is reachable and operational.
+   * @returns true, if the gateway is reachable, the sauna is connected and has no critical fault
+   */
+  private isStatusActive(): boolean {
+    return this.reachable && this.saunaConnected && (this.fault === undefined || this.fault.severity !== 'critical');
+  }
+
+  /**
+   * This function records if the gateway is reachable and updates the status of the thermostat.
+   * @param reachable indicates that the gateway is reachable
+   */
+  private setReachable(reachable: boolean) {
+    if (reachable === this.reachable) {
+      return;
+    }
+    this.reachable = reachable;
+    if (reachable) {
+      this.log.info('"' + this.name + '" is reachable again');
+    } else {
+      this.log.warn('"' + this.name + '" is not reachable');
+    }
+    this.thermostatService.updateCharacteristic(this.platform.Characteristic.StatusActive, this.isStatusActive());
+  }
+
+  /**
+   * This function sets up the usage statistics, the Eve history and the consumption characteristics.
+   * @param fileName the name of the files the statistics and the history are stored in (without extension)
+   * @param heaterPower the power of the heater in W (0, if unknown)
+   * @param historyEnabled indicates that the Eve history is recorded
+   */
+  private setupStatistics(fileName: string, heaterPower: number, historyEnabled: boolean) {
+    const EveCharacteristic = this.platform.EveCharacteristic;
+    let history: ThermoHistory | undefined;
+    if (historyEnabled) {
+      history = new this.platform.FakeGatoHistoryService('thermo', this.accessory, {
+        storage: 'fs',
+        filename: 'sentiotec_' + fileName + '_history.json',
+        log: this.log,
+      });
+    } else {
+      const historyService = this.accessory.services.find((service) => service.UUID === EVE_HISTORY_UUID);
+      if (historyService !== undefined) {
+        this.accessory.removeService(historyService);
+      }
+    }
+    this.heaterPower = heaterPower;
+    this.statistics = new UsageStatistics(this.log, path.join(this.platform.api.user.storagePath(), 'sentiotec', fileName + '.json'),
+      heaterPower, this.sentioAPI.supports(SaunaCharacteristics.HEATER_RELAY), history);
+
+    if (heaterPower > 0) {
+      this.thermostatService.addOptionalCharacteristic(EveCharacteristic.CurrentConsumption);
+      this.thermostatService.addOptionalCharacteristic(EveCharacteristic.TotalConsumption);
+      this.thermostatService.getCharacteristic(EveCharacteristic.CurrentConsumption)
+        .onGet(() => this.statistics.getPower());
+      this.thermostatService.getCharacteristic(EveCharacteristic.TotalConsumption)
+        .onGet(() => this.convertEnergy(this.statistics.getTotalEnergy()));
+    } else {
+      [EveCharacteristic.CurrentConsumption, EveCharacteristic.TotalConsumption].forEach((characteristicType) =>
+        this.removeOptionalCharacteristic(this.thermostatService, characteristicType));
+    }
+  }
+
+  /**
+   * This function updates the consumption characteristics (only if the power of the heater is known).
+   */
+  private updateConsumption() {
+    if (this.heaterPower > 0) {
+      this.thermostatService.updateCharacteristic(this.platform.EveCharacteristic.CurrentConsumption, this.statistics.getPower());
+      this.thermostatService.updateCharacteristic(this.platform.EveCharacteristic.TotalConsumption,
+        this.convertEnergy(this.statistics.getTotalEnergy()));
+    }
+  }
+
+  /**
+   * This function converts an energy consumption.
+   * @param energy the energy in kWh
+   * @returns the energy rounded to 10 Wh
+   */
+  private convertEnergy(energy: number): number {
+    return Math.round(energy * 100) / 100;
+  }
+
+  /**
+   * This function adds the configured ready sensor (occupancy or contact sensor) and removes the other one.
+   * @param sensorType the configured sensor type (none, occupancy or contact)
+   */
+  private setupReadySensor(sensorType: string) {
+    const Service = this.platform.Service;
+    const Characteristic = this.platform.Characteristic;
+    const sensors = {
+      occupancy: { serviceType: Service.OccupancySensor, characteristic: Characteristic.OccupancyDetected },
+      contact: { serviceType: Service.ContactSensor, characteristic: Characteristic.ContactSensorState },
+    };
+    for (const [type, sensor] of Object.entries(sensors)) {
+      const service = this.accessory.getServiceById(sensor.serviceType, 'ready');
+      if (type === sensorType) {
+        this.readySensorService = service || this.accessory.addService(sensor.serviceType, this.name + ' Ready', 'ready');
+        this.readySensorService.getCharacteristic(sensor.characteristic)
+          .onGet(() => this.convertReady(this.ready));
+      } else if (service !== undefined) {
+        this.accessory.removeService(service);
+      }
+    }
+  }
+
+  /**
+   * This function converts the ready state for the configured sensor.
+   * @param ready indicates that the sauna is ready
+   * @returns the value of the occupancy or contact sensor
+   */
+  private convertReady(ready: boolean): number {
+    const Characteristic = this.platform.Characteristic;
+    if (this.readySensorService !== undefined && this.readySensorService.UUID === this.platform.Service.ContactSensor.UUID) {
+      // an open contact triggers the notification
+      return ready ? Characteristic.ContactSensorState.CONTACT_NOT_DETECTED : Characteristic.ContactSensorState.CONTACT_DETECTED;
+    }
+    return ready ? Characteristic.OccupancyDetected.OCCUPANCY_DETECTED : Characteristic.OccupancyDetected.OCCUPANCY_NOT_DETECTED;
+  }
+
+  /**
+   * This function updates the ready state and logs the estimated time to ready.
+   */
+  private updateReady() {
+    const minutesToReady = this.getMinutesToReady();
+    if (minutesToReady !== this.lastMinutesToReady && minutesToReady !== undefined && minutesToReady > 0) {
+      this.log.info('"' + this.name + '" is estimated to be ready in ' + minutesToReady + ' min');
+    }
+    this.lastMinutesToReady = minutesToReady;
+
+    const ready = this.heatUpEstimator.isReady(this.readyTolerance);
+    if (ready === this.ready) {
+      return;
+    }
+    this.ready = ready;
+    if (ready) {
+      this.log.info('"' + this.name + '" is ready');
+    }
+    if (this.readySensorService !== undefined) {
+      const characteristic = this.readySensorService.UUID === this.platform.Service.ContactSensor.UUID ?
+        this.platform.Characteristic.ContactSensorState : this.platform.Characteristic.OccupancyDetected;
+      this.readySensorService.updateCharacteristic(characteristic, this.convertReady(ready));
+    }
+  }
+
+  /**
+   * This function returns the estimated time until the sauna is ready.
+   * @returns the minutes to ready (0 if ready) or undefined, if the sauna is not heating
+   */
+  public getMinutesToReady(): number | undefined {
+    return this.heatUpEstimator.getMinutesToReady(this.readyTolerance);
+  }
+
+  /**
+   * This function stops all timers of the sauna (e.g. on a Homebridge shutdown).
+   */
+  public stop() {
+    this.scheduler.stop();
+    this.rules.stop();
+    this.safetyPolicy.stop();
+    this.statistics.save()
+      .catch((error) => this.log.error('Saving the usage statistics failed: ' + error.message));
+  }
+
+  /**
+   * This function removes an optional characteristic restored from the cache.
+   * @param service the service
+   * @param characteristicType the type of the characteristic
+   */
+  private removeOptionalCharacteristic(service: Service, characteristicType: WithUUID<new () => Characteristic>) {
+    const characteristic = service.characteristics.find((cached) => cached.UUID === characteristicType.UUID);
+    if (characteristic !== undefined) {
+      service.removeCharacteristic(characteristic);
+    }
+  }
+
+  /**
+   * This function tracks the state of the connection to the gateway.
+   * @param state the new connection state
+   */
+  private onStateChange(state: ConnectionState) {
+    if (state === 'ready') {
+      this.setReachable(true);
+    } else if (state === 'disconnected' && this.persistent) {
+      // no values are pushed until the connection has been reestablished
+      this.setReachable(false);
+    }
+  }
+
+  /**
+   * This function pushes a value received from the gateway to the corresponding HomeKit characteristics.
+   * @param saunaID the ID of the sauna the value belongs to
+   * @param saunaCharacteristic the sauna characteristic
+   * @param value the typed value
+   */
+  private onUpdate(saunaID: number, saunaCharacteristic: SaunaCharacteristic, value: SaunaValue) {
+    if (saunaID !== this.saunaID) {
+      return;
+    }
+    const Characteristic = this.platform.Characteristic;
+    const outputService = this.outputServices.get(saunaCharacteristic.id);
+    if (outputService !== undefined) {
+      outputService.updateCharacteristic(Characteristic.On, this.convertOutputOn(value as boolean));
+    }
+    const levelService = this.levelServices.get(saunaCharacteristic.id);
+    if (levelService !== undefined) {
+      levelService.service.updateCharacteristic(levelService.levelType, this.convertOutputLevel(value as number));
+    }
+    switch (saunaCharacteristic.id) {
+      case SaunaCharacteristics.CURRENT_TEMPERATURE.id:
+        this.thermostatService.updateCharacteristic(Characteristic.CurrentTemperature, this.convertCurrentTemperature(value as number));
+        this.heatUpEstimator.addTemperature(value as number);
+        this.statistics.addTemperature(value as number);
+        this.updateReady();
+        break;
+      case SaunaCharacteristics.TARGET_TEMPERATURE.id: {
+        this.thermostatService.updateCharacteristic(Characteristic.TargetTemperature, this.convertTargetTemperature(value as number));
+        // a boost is ready at the target temperature set by the user, not at the maximum temperature
+        const userTarget = this.rules.getUserTarget(value as number);
+        this.heatUpEstimator.setTarget(userTarget);
+        this.statistics.setTarget(userTarget);
+        this.updateReady();
+        break;
+      }
+      case SaunaCharacteristics.ACTIVE.id:
+        this.thermostatService.updateCharacteristic(Characteristic.TargetHeatingCoolingState, this.convertTargetState(value as boolean));
+        this.thermostatService.updateCharacteristic(Characteristic.CurrentHeatingCoolingState, this.convertCurrentState(value as boolean));
+        this.safetyPolicy.watchRuntime(value as boolean);
+        this.heatUpEstimator.setActive(value as boolean);
+        this.statistics.setActive(value as boolean);
+        this.updateConsumption();
+        this.updateReady();
+        break;
+      case SaunaCharacteristics.HEATER_RELAY.id:
+        this.statistics.setHeating(value as boolean);
+        this.updateConsumption();
+        break;
+      case SaunaCharacteristics.HEATING_DURATION.id:
+        this.thermostatService.updateCharacteristic(Characteristic.SetDuration, this.convertDuration(value as number));
+        break;
+      case SaunaCharacteristics.REMAINING_TIME.id:
+        this.thermostatService.updateCharacteristic(Characteristic.RemainingDuration, this.convertDuration(value as number));
+        break;
+      case SaunaCharacteristics.FIRMWARE.id:
+        this.informationService.updateCharacteristic(Characteristic.FirmwareRevision, this.convertFirmwareVersion(value as string));
+        break;
+      case SaunaCharacteristics.CONNECTED.id:
+        this.saunaConnected = value as boolean;
+        this.thermostatService.updateCharacteristic(Characteristic.StatusActive, this.isStatusActive());
+        break;
+      case SaunaCharacteristics.FAULT_CODE.id:
+        this.updateFault(value as number);
+        break;
+      case SaunaCharacteristics.CONTROLLER_MODEL.id:
+        // HomeKit needs a model of at least 2 characters, the controller reports 0 without a model
+        this.informationService.updateCharacteristic(Characteristic.Model,
+          typeof value === 'string' && value.trim().length > 1 ? value.trim() : this.sentioAPI.getProfile().model);
+        break;
+      case SaunaCharacteristics.VAPORIZER_INSTALLED.id:
+        this.setupVaporizerServices(value as boolean && this.sentioAPI.supports(SaunaCharacteristics.VAPORIZER));
+        break;
+      case SaunaCharacteristics.VAPORIZER.id:
+        if (this.humidifierService !== undefined) {
+          this.humidifierService.updateCharacteristic(Characteristic.Active, this.convertVaporizerActive(value as boolean));
+          this.humidifierService.updateCharacteristic(Characteristic.CurrentHumidifierDehumidifierState,
+            this.convertVaporizerState(value as boolean));
+        }
+        break;
+      case SaunaCharacteristics.CURRENT_HUMIDITY.id:
+        [this.humidifierService, this.humiditySensorService].forEach((service) => {
+          if (service !== undefined) {
+            service.updateCharacteristic(Characteristic.CurrentRelativeHumidity, this.convertHumidity(value as number));
+          }
+        });
+        break;
+      case SaunaCharacteristics.TARGET_HUMIDITY.id:
+        if (this.humidifierService !== undefined) {
+          this.humidifierService.updateCharacteristic(Characteristic.RelativeHumidityHumidifierThreshold,
+            this.convertHumidity(value as number));
+        }
+        break;
+    }
   }
 
   /**
-   * This function retrieves a characteristic.
-   * @param characteristicID the ID of the characteristic
-   * @param characteristicName the human readable name of the characteristic for log output
+   * This function retrieves a characteristic for HomeKit. While the gateway is unreachable, the last known value is shown
+   * up to its maximum age (and updated as soon as a fresh value arrives), afterwards HomeKit shows "No Response".
+   * @param saunaCharacteristic the sauna characteristic
    * @param converterFunction the converter function to get the correct value
    * @param characteristic the characteristic that should be udpated
+   * @returns a Promise with the converted value (rejected with a HapStatusError, if no fresh value is available)
    */
   /* eslint-disable @typescript-eslint/no-explicit-any*/
-  private getCharacteristic(saunaCharacteristic: SaunaCharacteristic,
-    converterFunction: (value: string | null) => any, characteristic: Characteristic): any {
-    this.sentioAPI.getCharacteristic(saunaCharacteristic)
+  private getCharacteristic<T extends SaunaValue>(saunaCharacteristic: SaunaCharacteristic<T>,
+    converterFunction: (value: T | null) => any, characteristic: Characteristic): Promise<any> {
+    const request = this.sentioAPI.getCharacteristic(this.saunaID, saunaCharacteristic)
       .then((value) => {
-        if (!this.sentioAPI.connected) {
-          // Sauna is not connected to return an error
-          this.log.info('Update characteristic "' + saunaCharacteristic.name + '" failed: Sauna not connected');
-          characteristic.updateValue(new Error('Update characteristic "' + saunaCharacteristic.name + '" failed: Sauna not connected'));
-        } else {
-          const convertedValue = converterFunction(value);
-          this.log.debug('Updating characteristic "' + saunaCharacteristic.name + '" with value :' + convertedValue);
-          characteristic.updateValue(convertedValue);
+        this.setReachable(true);
+        if (!this.sentioAPI.isConnected(this.saunaID)) {
+          throw new Error('Sauna not connected');
         }
-      })
-      .catch(error => {
-        if (error.message){
-          // a real error object
-          this.log.error('Update characteristic "' + saunaCharacteristic.name + '" failed: ' + error.message);
-          characteristic.updateValue(error);
-        } else {
-          // just a message
-          this.log.error('Update characteristic "' + saunaCharacteristic.name + '" failed: ' + error);
-          characteristic.updateValue(new Error(error));
+        if (value === undefined) {
+          throw new Error('No value received');
         }
+        const convertedValue = converterFunction(value);
+        this.log.debug('Updating characteristic "' + saunaCharacteristic.name + '" with value :' + convertedValue);
+        return convertedValue;
+      }, (error) => {
+        this.setReachable(false);
+        throw error;
+      });
+    const lastKnownValue = this.sentioAPI.isConnected(this.saunaID) ?
+      this.sentioAPI.getLastKnownValue(this.saunaID, saunaCharacteristic, this.maxValueAge) : undefined;
+    if (lastKnownValue !== undefined) {
+      // answer immediately and push the fresh value once it arrives
+      request
+        .then((convertedValue) => characteristic.updateValue(convertedValue))
+        .catch((error) => this.log.debug('Update characteristic "' + saunaCharacteristic.name + '" failed, showing the last known value: ' +
+          (error.message ? error.message : error)));
+      return Promise.resolve(converterFunction(lastKnownValue));
+    }
+    return request
+      .catch((error) => {
+        this.log.error('Update characteristic "' + saunaCharacteristic.name + '" failed: ' + (error.message ? error.message : error));
+        throw new this.platform.api.hap.HapStatusError(this.platform.api.hap.HAPStatus.SERVICE_COMMUNICATION_FAILURE);
+      });
+  }
+
+  /**
+   * This function writes a characteristic and reverts the HomeKit characteristic to the device value,
+   * if the controller clamped or rejected the value or the write failed.
+   * @param saunaCharacteristic the sauna characteristic
+   * @param value the typed value
+   * @param converterFunction the converter function to get the HomeKit value
+   * @param characteristic the characteristic that has been set
+   * @returns a Promise with the value confirmed by the controller (rejected with a HapStatusError, if the write failed)
+   */
+  private writeCharacteristic<T extends SaunaValue>(saunaCharacteristic: SaunaCharacteristic<T>, value: T,
+    converterFunction: (value: T | null) => any, characteristic: Characteristic): Promise<T> {
+    return this.sentioAPI.setCharacterstic(this.saunaID, saunaCharacteristic, value)
+      .then((confirmedValue) => {
+        if (confirmedValue !== value) {
+          this.log.warn('Controller set "' + saunaCharacteristic.name + '" to ' + confirmedValue + ' instead of ' + value);
+          // HomeKit stores the written value after the set handler, so revert it afterwards
+          setImmediate(() => characteristic.updateValue(converterFunction(confirmedValue)));
+        }
+        return confirmedValue;
+      })
+      .catch((error) => {
+        this.log.error('Setting characteristic "' + saunaCharacteristic.name + '" failed: ' + (error.message ? error.message : error));
+        // show the actual value of the device again
+        this.getCharacteristic(saunaCharacteristic, converterFunction, characteristic)
+          .then((actualValue) => characteristic.updateValue(actualValue))
+          .catch(() => undefined);
+        throw new this.platform.api.hap.HapStatusError(this.platform.api.hap.HAPStatus.SERVICE_COMMUNICATION_FAILURE);
       });
-    return converterFunction(null);
   }
 
   /**
    * This function returns the current temperature in the form of a callback.
    * @return the target temperature
    */
-  getCurrentTemperature(): number {
-    return this.getCharacteristic(this.sentioAPI.CURRENT_TEMPERATURE,
-      (value: string | null) => {
-        if (value === null) {
-          return MIN_CURRENT_TEMPERATURE;
-        } else {
-          return parseInt(value);
-        }
-      },
-      this.thermostatService.getCharacteristic(hap.Characteristic.CurrentTemperature),
+  getCurrentTemperature(): Promise<number> {
+    return this.getCharacteristic(SaunaCharacteristics.CURRENT_TEMPERATURE,
+      this.convertCurrentTemperature.bind(this),
+      this.thermostatService.getCharacteristic(this.platform.Characteristic.CurrentTemperature),
     );
   }
 
+  /**
+   * This function converts the raw current temperature.
+   * @param value the typed value
+   * @returns the current temperature
+   */
+  private convertCurrentTemperature(value: number | null): number {
+    if (value === null) {
+      return MIN_CURRENT_TEMPERATURE;
+    } else {
+      return Math.round(value);
+    }
+  }
+
   /**
    * This function returns the target temperature in the form of a callback
    * @returns the target temperature
    */
-  getTargetTemperature(): number {
-    return this.getCharacteristic(this.sentioAPI.TARGET_TEMPERATURE,
-      (value: string | null) => {
-        if (value === null) {
-          return MIN_TARGET_TEMPERATURE;
-        } else {
-          return parseInt(value);
-        }
-      },
-      this.thermostatService.getCharacteristic(hap.Characteristic.TargetTemperature),
+  getTargetTemperature(): Promise<number> {
+    return this.getCharacteristic(SaunaCharacteristics.TARGET_TEMPERATURE,
+      this.convertTargetTemperature.bind(this),
+      this.thermostatService.getCharacteristic(this.platform.Characteristic.TargetTemperature),
     );
   }
 
+  /**
+   * This function converts the raw target temperature.
+   * @param value the typed value
+   * @returns the target temperature
+   */
+  private convertTargetTemperature(value: number | null): number {
+    if (value === null) {
+      return this.minTargetTemperature;
+    } else {
+      // HomeKit rejects values outside of the configured range
+      return Math.min(this.maxTargetTemperature, Math.max(this.minTargetTemperature, value));
+    }
+  }
+
+  /**
+   * This function limits a target temperature to the configured range and step size.
+   * @param value the target temperature
+   * @returns the limited target temperature
+   */
+  public limitTargetTemperature(value: number): number {
+    const stepped = this.minTargetTemperature + Math.round((value - this.minTargetTemperature) / this.targetTemperatureStep) *
+      this.targetTemperatureStep;
+    return Math.min(this.maxTargetTemperature, Math.max(this.minTargetTemperature, stepped));
+  }
+
+  /**
+   * This function returns the temperature display units chosen in HomeKit.
+   * @returns either CELSIUS or FAHRENHEIT
+   */
+  getTemperatureDisplayUnits(): number {
+    if (this.accessory.context.temperatureDisplayUnits === this.platform.Characteristic.TemperatureDisplayUnits.FAHRENHEIT) {
+      return this.platform.Characteristic.TemperatureDisplayUnits.FAHRENHEIT;
+    } else {
+      return this.platform.Characteristic.TemperatureDisplayUnits.CELSIUS;
+    }
+  }
+
+  /**
+   * This function remembers the temperature display units chosen in HomeKit (in the accessory context).
+   * @param value either CELSIUS or FAHRENHEIT
+   */
+  setTemperatureDisplayUnits(value) {
+    this.log.info('Setting temperature display units to ' +
+      (value === this.platform.Characteristic.TemperatureDisplayUnits.FAHRENHEIT ? 'Fahrenheit' : 'Celsius'));
+    this.accessory.context.temperatureDisplayUnits = value;
+    this.platform.api.updatePlatformAccessories([this.accessory]);
+  }
+
   /**
    * This function returns the software version of the Sauna control.
    * @returns the software version
    */
-  getFirmwareVersion(): string {
-    return this.getCharacteristic(this.sentioAPI.FIRMWARE,
-      (value: string | null) => {
-        if (value === null) {
-          return 'UNKNOWN';
-        } else {
-          return value;
-        }
-      },
-      this.informationService.getCharacteristic(hap.Characteristic.FirmwareRevision),
+  getFirmwareVersion(): Promise<string> {
+    return this.getCharacteristic(SaunaCharacteristics.FIRMWARE,
+      this.convertFirmwareVersion.bind(this),
+      this.informationService.getCharacteristic(this.platform.Characteristic.FirmwareRevision),
     );
   }
 
+  /**
+   * This function converts the raw firmware version.
+   * @param value the typed value
+   * @returns the software version
+   */
+  private convertFirmwareVersion(value: string | null): string {
+    if (value === null) {
+      return 'UNKNOWN';
+    } else {
+      return value;
+    }
+  }
+
   /**
    * This function returns the targetted state
    * @returns the currently active state (either HEAT or OFF, but never COOL)
    */
-  getTargetState() {
-    return this.getCharacteristic(this.sentioAPI.ACTIVE,
-      (value: string | null) => {
-        if (value === null) {
-          return hap.Characteristic.TargetHeatingCoolingState.OFF;
-        }
-        if (parseInt(value) === 1) {
-          return hap.Characteristic.TargetHeatingCoolingState.HEAT;
-        } else {
-          return hap.Characteristic.TargetHeatingCoolingState.OFF;
-        }
-      },
-      this.thermostatService.getCharacteristic(hap.Characteristic.TargetHeatingCoolingState),
+  getTargetState(): Promise<number> {
+    return this.getCharacteristic(SaunaCharacteristics.ACTIVE,
+      this.convertTargetState.bind(this),
+      this.thermostatService.getCharacteristic(this.platform.Characteristic.TargetHeatingCoolingState),
     );
   }
 
+  /**
+   * This function converts the raw active state into the target state.
+   * @param value the typed value
+   * @returns the target state (either HEAT or OFF, but never COOL)
+   */
+  private convertTargetState(value: boolean | null): number {
+    if (value === null) {
+      return this.platform.Characteristic.TargetHeatingCoolingState.OFF;
+    }
+    if (value) {
+      return this.platform.Characteristic.TargetHeatingCoolingState.HEAT;
+    } else {
+      return this.platform.Characteristic.TargetHeatingCoolingState.OFF;
+    }
+  }
+
 
   /**
    * This function returns the currently active state
    * @returns the currently active state (either HEAT or OFF, but never COOL)
    */
-  getCurrentState() {
-    return this.getCharacteristic(this.sentioAPI.ACTIVE,
-      (value: string | null) => {
-        if (value === null) {
-          // a valid value has been received
-          this.thermostatService.setHiddenService(true);
-          return hap.Characteristic.CurrentHeatingCoolingState.OFF;
-        } else {
-          // a valid value has been received
-          this.thermostatService.setHiddenService(false);
-        }
-        if (parseInt(value) === 1) {
-          return hap.Characteristic.CurrentHeatingCoolingState.HEAT;
-        } else {
-          return hap.Characteristic.CurrentHeatingCoolingState.OFF;
-        }
-      },
-      this.thermostatService.getCharacteristic(hap.Characteristic.CurrentHeatingCoolingState),
+  getCurrentState(): Promise<number> {
+    return this.getCharacteristic(SaunaCharacteristics.ACTIVE,
+      this.convertCurrentState.bind(this),
+      this.thermostatService.getCharacteristic(this.platform.Characteristic.CurrentHeatingCoolingState),
     );
   }
 
   /**
-   * This function sets the target state
+   * This function converts the raw active state into the current state.
+   * @param value the typed value
+   * @returns the currently active state (either HEAT or OFF, but never COOL)
+   */
+  private convertCurrentState(value: boolean | null): number {
+    if (value) {
+      return this.platform.Characteristic.CurrentHeatingCoolingState.HEAT;
+    } else {
+      return this.platform.Characteristic.CurrentHeatingCoolingState.OFF;
+    }
+  }
+
+  /**
+   * This function sets the target state (a start has to be allowed by the safety policy)
    * @param value the target state
+   * @param context the context of the request
+   * @param origin the HomeKit controller requesting the change
+   * @returns a Promise for the execution
    */
-  setTargetState(value) {
+  setTargetState(value, context?: unknown, origin?: RequestOrigin): Promise<void> {
     this.log.info('Setting target state to ' + value.toString());
-    let target = 0;
-    if (value === hap.Characteristic.TargetHeatingCoolingState.HEAT) {
-      target = 1;
+    const target = value === this.platform.Characteristic.TargetHeatingCoolingState.HEAT;
+    const characteristic = this.thermostatService.getCharacteristic(this.platform.Characteristic.TargetHeatingCoolingState);
+    const check: Promise<string | undefined> = target ? this.safetyPolicy.checkStart(origin) : Promise.resolve(undefined);
+    return check
+      .catch((error) => {
+        this.log.error('Checking the safety of "' + this.name + '" failed: ' + (error.message ? error.message : error));
+        throw new this.platform.api.hap.HapStatusError(this.platform.api.hap.HAPStatus.SERVICE_COMMUNICATION_FAILURE);
+      })
+      .then((refusal) => {
+        if (refusal !== undefined) {
+          throw new this.platform.api.hap.HapStatusError(this.platform.api.hap.HAPStatus.NOT_ALLOWED_IN_CURRENT_STATE);
+        }
+        return this.writeCharacteristic(SaunaCharacteristics.ACTIVE, target, this.convertTargetState.bind(this), characteristic);
+      })
+      .then((active) => this.safetyPolicy.watchRuntime(active));
+  }
+
+  /**
+   * This function returns the heating duration (auto-off timer) of the controller.
+   * @returns the heating duration in seconds
+   */
+  getHeatingDuration(): Promise<number> {
+    return this.getCharacteristic(SaunaCharacteristics.HEATING_DURATION,
+      this.convertDuration.bind(this),
+      this.thermostatService.getCharacteristic(this.platform.Characteristic.SetDuration),
+    );
+  }
+
+  /**
+   * This function returns the remaining heating time.
+   * @returns the remaining heating time in seconds
+   */
+  getRemainingDuration(): Promise<number> {
+    return this.getCharacteristic(SaunaCharacteristics.REMAINING_TIME,
+      this.convertDuration.bind(this),
+      this.thermostatService.getCharacteristic(this.platform.Characteristic.RemainingDuration),
+    );
+  }
+
+  /**
+   * This function converts a raw duration.
+   * @param value the typed value in minutes
+   * @returns the duration in seconds
+   */
+  private convertDuration(value: number | null): number {
+    if (value === null) {
+      return 0;
+    } else {
+      return value * 60;
     }
-    this.sentioAPI.setCharacterstic(this.sentioAPI.ACTIVE, target);
+  }
 
+  /**
+   * This function sets the heating duration (limited to the maximum runtime)
+   * @param value the heating duration in seconds
+   * @returns a Promise for the execution
+   */
+  setHeatingDuration(value): Promise<void> {
+    const minutes = this.safetyPolicy.limitHeatingDuration(Math.round(value / 60));
+    this.log.info('Setting heating duration to ' + minutes + ' min');
+    return this.writeCharacteristic(SaunaCharacteristics.HEATING_DURATION, minutes, this.convertDuration.bind(this),
+      this.thermostatService.getCharacteristic(this.platform.Characteristic.SetDuration))
+      .then((confirmedMinutes) => {
+        if (confirmedMinutes === minutes && minutes * 60 !== value) {
+          // show the limited duration
+          setImmediate(() => this.thermostatService.updateCharacteristic(this.platform.Characteristic.SetDuration, minutes * 60));
+        }
+      });
+  }
+
+  /**
+   * This function returns the current temperature of the sauna (for the scheduler).
+   * @returns a Promise with the current temperature (undefined, if not known)
+   */
+  public getCurrentTemperatureValue(): Promise<number | undefined> {
+    return this.sentioAPI.getCharacteristic(this.saunaID, SaunaCharacteristics.CURRENT_TEMPERATURE);
+  }
+
+  /**
+   * This function switches the sauna on for a schedule (if allowed by the safety policy).
+   * @param schedule the schedule starting the sauna
+   * @param duration the heating duration in minutes (preheating and usage)
+   * @returns a Promise for the execution
+   */
+  public startSchedule(schedule: ScheduleConfig, duration: number): Promise<void> {
+    const maxRuntime = this.safetyPolicy.maxRuntime;
+    let minutes = Math.min(duration, SaunaCharacteristics.HEATING_DURATION.maxValue!);
+    if (maxRuntime > 0) {
+      minutes = Math.min(minutes, maxRuntime);
+    }
+    const targetTemperature = this.limitTargetTemperature(schedule.targetTemperature);
+    return this.safetyPolicy.checkStart()
+      .then((refusal) => {
+        if (refusal !== undefined) {
+          throw new Error('Start refused: ' + refusal);
+        }
+        return this.sentioAPI.setCharacterstic(this.saunaID, SaunaCharacteristics.TARGET_TEMPERATURE, targetTemperature);
+      })
+      .then(() => {
+        // without the timer of the controller the maximum runtime switches the sauna off
+        if (this.sentioAPI.supports(SaunaCharacteristics.HEATING_DURATION)) {
+          return this.sentioAPI.setCharacterstic(this.saunaID, SaunaCharacteristics.HEATING_DURATION, minutes);
+        }
+      })
+      .then(() => this.sentioAPI.setCharacterstic(this.saunaID, SaunaCharacteristics.ACTIVE, true))
+      .then(() => this.safetyPolicy.watchRuntime(true));
   }
 
   /**
    * This function sets the target temperature
    * @param value the target value
+   * @returns a Promise for the execution
+   */
+  setTargetTemperatur(value): Promise<void> {
+    const targetTemperature = this.limitTargetTemperature(value);
+    if (targetTemperature !== value) {
+      this.log.warn('Target temperature of ' + value + ' °C is outside of the configured range, limiting it to ' +
+        targetTemperature + ' °C');
+    }
+    this.log.info('Setting target temperature to ' + targetTemperature);
+    return this.writeCharacteristic(SaunaCharacteristics.TARGET_TEMPERATURE, targetTemperature, this.convertTargetTemperature.bind(this),
+      this.thermostatService.getCharacteristic(this.platform.Characteristic.TargetTemperature))
+      .then((confirmedTemperature) => {
+        if (confirmedTemperature === targetTemperature && targetTemperature !== value) {
+          // show the limited temperature
+          setImmediate(() => this.thermostatService.updateCharacteristic(this.platform.Characteristic.TargetTemperature,
+            targetTemperature));
+        }
+      });
+  }
+
+  /**
+   * This function returns if the vaporizer is switched on.
+   * @returns either ACTIVE or INACTIVE
+   */
+  getVaporizerActive(): Promise<number> {
+    return this.getCharacteristic(SaunaCharacteristics.VAPORIZER,
+      this.convertVaporizerActive.bind(this),
+      this.humidifierService!.getCharacteristic(this.platform.Characteristic.Active),
+    );
+  }
+
+  /**
+   * This function converts the raw vaporizer state into the active state.
+   * @param value the typed value
+   * @returns either ACTIVE or INACTIVE
+   */
+  private convertVaporizerActive(value: boolean | null): number {
+    if (value) {
+      return this.platform.Characteristic.Active.ACTIVE;
+    } else {
+      return this.platform.Characteristic.Active.INACTIVE;
+    }
+  }
+
+  /**
+   * This function returns the current humidifying state.
+   * @returns either HUMIDIFYING or INACTIVE
    */
-  setTargetTemperatur(value) {
-    this.log.info('Setting target temperature to ' + value);
-    this.sentioAPI.setCharacterstic(this.sentioAPI.TARGET_TEMPERATURE, value);
+  getVaporizerState(): Promise<number> {
+    return this.getCharacteristic(SaunaCharacteristics.VAPORIZER,
+      this.convertVaporizerState.bind(this),
+      this.humidifierService!.getCharacteristic(this.platform.Characteristic.CurrentHumidifierDehumidifierState),
+    );
   }
 
-  /*
-   * This method is called directly after creation of this instance.
-   * It should return all services which should be added to the accessory.
+  /**
+   * This function converts the raw vaporizer state into the humidifying state.
+   * @param value the typed value
+   * @returns either HUMIDIFYING or INACTIVE
    */
-  getServices(): Service[] {
-    return [
-      this.informationService,
-      this.thermostatService,
-    ];
+  private convertVaporizerState(value: boolean | null): number {
+    if (value) {
+      return this.platform.Characteristic.CurrentHumidifierDehumidifierState.HUMIDIFYING;
+    } else {
+      return this.platform.Characteristic.CurrentHumidifierDehumidifierState.INACTIVE;
+    }
   }
 
-}
\ No newline at end of file
+  /**
+   * This function returns the current humidity.
+   * @param service the service the humidity is requested for
+   * @returns the current humidity
+   */
+  getCurrentHumidity(service: Service): Promise<number> {
+    return this.getCharacteristic(SaunaCharacteristics.CURRENT_HUMIDITY,
+      this.convertHumidity.bind(this),
+      service.getCharacteristic(this.platform.Characteristic.CurrentRelativeHumidity),
+    );
+  }
+
+  /**
+   * This function returns the target humidity.
+   * @returns the target humidity
+   */
+  getTargetHumidity(): Promise<number> {
+    return this.getCharacteristic(SaunaCharacteristics.TARGET_HUMIDITY,
+      this.convertHumidity.bind(this),
+      this.humidifierService!.getCharacteristic(this.platform.Characteristic.RelativeHumidityHumidifierThreshold),
+    );
+  }
+
+  /**
+   * This function converts a raw humidity.
+   * @param value the typed value
+   * @returns the humidity in percent
+   */
+  private convertHumidity(value: number | null): number {
+    if (value === null) {
+      return 0;
+    } else {
+      return value;
+    }
+  }
+
+  /**
+   * This function switches the vaporizer on or off
+   * @param value either ACTIVE or INACTIVE
+   * @returns a Promise for the execution
+   */
+  setVaporizerActive(value): Promise<void> {
+    this.log.info('Setting vaporizer to ' + value.toString());
+    return this.writeCharacteristic(SaunaCharacteristics.VAPORIZER, value === this.platform.Characteristic.Active.ACTIVE,
+      this.convertVaporizerActive.bind(this), this.humidifierService!.getCharacteristic(this.platform.Characteristic.Active))
+      .then(() => undefined);
+  }
+
+  /**
+   * This function sets the target humidity
+   * @param value the target humidity
+   * @returns a Promise for the execution
+   */
+  setTargetHumidity(value): Promise<void> {
+    this.log.info('Setting target humidity to ' + value);
+    return this.writeCharacteristic(SaunaCharacteristics.TARGET_HUMIDITY, value, this.convertHumidity.bind(this),
+      this.humidifierService!.getCharacteristic(this.platform.Characteristic.RelativeHumidityHumidifierThreshold))
+      .then(() => undefined);
+  }
+
+  /**
+   * This function converts the raw state of an output.
+   * @param value the typed value
+   * @returns true, if the output is switched on
+   */
+  private convertOutputOn(value: boolean | null): boolean {
+    return value === true;
+  }
+
+  /**
+   * This function converts the raw level (brightness, speed) of an output.
+   * @param value the typed value
+   * @returns the level in percent
+   */
+  private convertOutputLevel(value: number | null): number {
+    if (value === null) {
+      return 0;
+    } else {
+      return value;
+    }
+  }
+
+  /**
+   * This function switches an output or sets its level.
+   * @param saunaCharacteristic the characteristic of the output
+   * @param value the new value
+   * @param converterFunction the converter function to get the HomeKit value
+   * @param characteristic the characteristic that has been set
+   * @returns a Promise for the execution
+   */
+  private setOutput<T extends boolean | number>(saunaCharacteristic: SaunaCharacteristic<T>, value: T,
+    converterFunction: (value: T | null) => any, characteristic: Characteristic): Promise<void> {
+    this.log.info('Setting ' + saunaCharacteristic.name + ' to ' + value);
+    return this.writeCharacteristic(saunaCharacteristic, value, converterFunction, characteristic)
+      .then(() => undefined);
+  }
+}
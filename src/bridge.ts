@@ -0,0 +1,110 @@
+import { SentiotecAPI } from './websocket';
+import { SaunaConfig } from './settings';
+import {
+  RequestOrigin,
+  SafetyPolicy,
+} from './safety';
+import {
+  SaunaCharacteristic,
+  SaunaCharacteristics,
+  SaunaValue,
+  findCharacteristic,
+  getCharacteristicKey,
+} from './characteristics';
+
+/**
+ * This interface defines a Pronet gateway shared with the bridges to other systems (MQTT, REST)
+ */
+export interface BridgeGateway {
+  /**
+   * the serial of the gateway
+   */
+  serial: string;
+  /**
+   * the API of the gateway (the connection shared with HomeKit)
+   */
+  api: SentiotecAPI;
+  /**
+   * the configured saunas
+   */
+  saunas: SaunaConfig[];
+  /**
+   * the safety policies by sauna ID
+   */
+  policies: Map<number, SafetyPolicy>;
+  /**
+   * the functions estimating the minutes until a sauna is ready by sauna ID (undefined, if it is not heating)
+   */
+  minutesToReady: Map<number, () => number | undefined>;
+  /**
+   * the functions limiting a target temperature to the range and step size configured in HomeKit by sauna ID
+   */
+  targetTemperatureLimits: Map<number, (value: number) => number>;
+}
+
+/**
+ * This function returns the values of all known characteristics of a sauna.
+ * @param gateway the gateway
+ * @param saunaID the ID of the sauna
+ * @returns a Promise with the typed values by characteristic name (e.g. current_temperature)
+ */
+export function readValues(gateway: BridgeGateway, saunaID: number): Promise<{ [key: string]: SaunaValue }> {
+  return gateway.api.getValues()
+    .then((values) => {
+      const result: { [key: string]: SaunaValue } = {};
+      values.forEach((raw, address) => {
+        const parts = address.split('/');
+        const characteristic = parts.length === 3 && parseInt(parts[1]) === saunaID ? findCharacteristic(parseInt(parts[2])) : undefined;
+        if (characteristic !== undefined) {
+          result[getCharacteristicKey(characteristic)] = characteristic.parse(raw);
+        }
+      });
+      return result;
+    });
+}
+
+/**
+ * This function limits a value written by a bridge the same way as a value set in HomeKit (the target temperature to the
+ * configured range and step size, the heating duration to the maximum runtime).
+ * @param gateway the gateway
+ * @param saunaID the ID of the sauna
+ * @param characteristic the characteristic
+ * @param value the typed value
+ * @returns the limited value
+ */
+export function limitWrite(gateway: BridgeGateway, saunaID: number, characteristic: SaunaCharacteristic, value: SaunaValue): SaunaValue {
+  if (characteristic === SaunaCharacteristics.TARGET_TEMPERATURE) {
+    const limit = gateway.targetTemperatureLimits.get(saunaID);
+    return limit !== undefined ? limit(value as number) : value;
+  }
+  if (characteristic === SaunaCharacteristics.HEATING_DURATION) {
+    const policy = gateway.policies.get(saunaID);
+    return policy !== undefined ? policy.limitHeatingDuration(value as number) : value;
+  }
+  return value;
+}
+
+/**
+ * This function checks if a value may be written by a bridge (a start has to be allowed by the safety policy of the sauna).
+ * @param gateway the gateway
+ * @param saunaID the ID of the sauna
+ * @param characteristic the characteristic
+ * @param value the typed value
+ * @param origin the client requesting the write (if known)
+ * @returns a Promise with the reason, if the write is refused (undefined, if it is allowed)
+ */
+export function checkWrite(gateway: BridgeGateway, saunaID: number, characteristic: SaunaCharacteristic, value: SaunaValue,
+  origin?: RequestOrigin): Promise<string | undefined> {
+  if (!characteristic.writable) {
+    return Promise.resolve('"' + characteristic.name + '" cannot be set');
+  }
+  const policy = gateway.policies.get(saunaID);
+  if (policy === undefined) {
+    return Promise.resolve('the sauna ' + saunaID + ' is not configured');
+  }
+  // any value switching the sauna on is a start
+  if (characteristic === SaunaCharacteristics.ACTIVE && SaunaCharacteristics.ACTIVE.serialize(value as boolean) === 1) {
+    return policy.checkStart(origin);
+  }
+  return Promise.resolve(undefined);
+}
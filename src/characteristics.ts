@@ -0,0 +1,291 @@
+/**
+ * the IDs of the addresses verified on a real controller (used by the plugin since its first version:
+ * connected 0, on/off 1, target temperature 2, current temperature 11 and firmware 21).
+ * All other IDs have not been confirmed by the protocol documentation or captured frames yet.
+ */
+const VERIFIED_IDS = [0, 1, 2, 11, 21];
+
+/**
+ * the data types of the values on the Pronet gateway
+ */
+export type SaunaDataType = 'bool' | 'int' | 'float' | 'string' | 'enum';
+
+/**
+ * the typed values of the sauna characteristics
+ */
+export type SaunaValue = boolean | number | string;
+
+/**
+ * This interface defines a sauna characteristic (the KNX address 183/<sauna>/<id> on the Pronet gateway)
+ */
+export interface SaunaCharacteristic<T extends SaunaValue = SaunaValue> {
+  /**
+   * the unique ID
+   */
+  readonly id: number;
+  /**
+   * the human readable name
+   */
+  readonly name: string;
+  /**
+   * the data type of the value
+   */
+  readonly type: SaunaDataType;
+  /**
+   * the unit of the value (if any)
+   */
+  readonly unit?: string;
+  /**
+   * the minimum value (numbers only)
+   */
+  readonly minValue?: number;
+  /**
+   * the maximum value (numbers only)
+   */
+  readonly maxValue?: number;
+  /**
+   * the valid values and their names (enums only)
+   */
+  readonly values?: { readonly [value: number]: string };
+  /**
+   * indicates that the characteristic can be set
+   */
+  readonly writable: boolean;
+  /**
+   * indicates that the address has been verified on a real controller (unverified addresses are neither read nor written by default)
+   */
+  readonly verified: boolean;
+  /**
+   * This function converts the raw value sent by the gateway.
+   * @param raw the raw value
+   * @returns the typed value
+   */
+  parse(raw: string): T;
+  /**
+   * This function converts a typed value for a write to the gateway and rejects invalid values.
+   * @param value the typed value
+   * @returns the raw value to be sent
+   */
+  serialize(value: T): number | string;
+}
+
+/**
+ * This function defines a boolean characteristic (transmitted as 0/1).
+ * @param id the unique ID
+ * @param name the human readable name
+ * @param writable indicates that the characteristic can be set
+ */
+function defineBool(id: number, name: string, writable: boolean): SaunaCharacteristic<boolean> {
+  return {
+    id,
+    name,
+    type: 'bool',
+    writable,
+    verified: VERIFIED_IDS.includes(id),
+    parse: (raw) => parseInt(raw) === 1,
+    serialize: (value) => value ? 1 : 0,
+  };
+}
+
+/**
+ * This function defines a numeric characteristic.
+ * @param id the unique ID
+ * @param name the human readable name
+ * @param type either int or float
+ * @param unit the unit of the value
+ * @param minValue the minimum value
+ * @param maxValue the maximum value
+ * @param writable indicates that the characteristic can be set
+ */
+function defineNumber(id: number, name: string, type: 'int' | 'float', unit: string,
+  minValue: number, maxValue: number, writable: boolean): SaunaCharacteristic<number> {
+  return {
+    id,
+    name,
+    type,
+    unit,
+    minValue,
+    maxValue,
+    writable,
+    verified: VERIFIED_IDS.includes(id),
+    parse: (raw) => type === 'int' ? parseInt(raw) : parseFloat(raw),
+    serialize: (value) => {
+      if (typeof value !== 'number' || isNaN(value)) {
+        throw new Error('Value "' + value + '" for "' + name + '" is not a number');
+      }
+      if (value < minValue || value > maxValue) {
+        throw new Error('Value ' + value + ' for "' + name + '" is out of range (' + minValue + '-' + maxValue + ')');
+      }
+      return type === 'int' ? Math.round(value) : value;
+    },
+  };
+}
+
+/**
+ * This function defines an enumeration characteristic (transmitted as number).
+ * @param id the unique ID
+ * @param name the human readable name
+ * @param values the valid values and their names
+ * @param writable indicates that the characteristic can be set
+ */
+function defineEnum(id: number, name: string, values: { [value: number]: string }, writable: boolean): SaunaCharacteristic<number> {
+  return {
+    id,
+    name,
+    type: 'enum',
+    values,
+    writable,
+    verified: VERIFIED_IDS.includes(id),
+    parse: (raw) => parseInt(raw),
+    serialize: (value) => {
+      if (values[value] === undefined) {
+        throw new Error('Value "' + value + '" for "' + name + '" is not one of ' + Object.keys(values).join(', '));
+      }
+      return value;
+    },
+  };
+}
+
+/**
+ * This function defines a string characteristic.
+ * @param id the unique ID
+ * @param name the human readable name
+ * @param writable indicates that the characteristic can be set
+ */
+function defineString(id: number, name: string, writable: boolean): SaunaCharacteristic<string> {
+  return {
+    id,
+    name,
+    type: 'string',
+    writable,
+    verified: VERIFIED_IDS.includes(id),
+    parse: (raw) => raw,
+    serialize: (value) => value,
+  };
+}
+
+/**
+ * All known characteristics of a sauna on the Pronet gateway (see VERIFIED_IDS for the addresses confirmed so far).
+ */
+export const SaunaCharacteristics = {
+  CONNECTED: defineBool(0, 'Sauna Connected', false),
+  ACTIVE: defineBool(1, 'Sauna On/Off', true),
+  TARGET_TEMPERATURE: defineNumber(2, 'Target Temperature', 'int', '°C', 30, 120, true),
+  TARGET_HUMIDITY: defineNumber(3, 'Target Humidity', 'int', '%', 0, 100, true),
+  HEATING_DURATION: defineNumber(4, 'Heating Duration', 'int', 'min', 0, 720, true),
+  LIGHT: defineBool(5, 'Light On/Off', true),
+  LIGHT_BRIGHTNESS: defineNumber(6, 'Light Brightness', 'int', '%', 0, 100, true),
+  FAN: defineBool(7, 'Fan On/Off', true),
+  FAN_SPEED: defineNumber(8, 'Fan Speed', 'int', '%', 0, 100, true),
+  AUX: defineBool(9, 'Auxiliary Output On/Off', true),
+  VAPORIZER: defineBool(10, 'Vaporizer On/Off', true),
+  CURRENT_TEMPERATURE: defineNumber(11, 'Current Temperature', 'float', '°C', -20, 150, false),
+  CURRENT_HUMIDITY: defineNumber(12, 'Current Humidity', 'int', '%', 0, 100, false),
+  REMAINING_TIME: defineNumber(13, 'Remaining Heating Time', 'int', 'min', 0, 720, false),
+  HEATER_RELAY: defineBool(14, 'Heater Relay', false),
+  DOOR_OPEN: defineBool(15, 'Door Open', false),
+  FAULT_CODE: defineNumber(16, 'Fault Code', 'int', '', 0, 255, false),
+  VAPORIZER_INSTALLED: defineBool(17, 'Vaporizer Installed', false),
+  OPERATING_MODE: defineEnum(18, 'Operating Mode', { 0: 'Sauna', 1: 'Bio Sauna', 2: 'Infrared' }, false),
+  BENCH_TEMPERATURE: defineNumber(19, 'Bench Temperature', 'float', '°C', -20, 150, false),
+  OPERATING_HOURS: defineNumber(20, 'Operating Hours', 'int', 'h', 0, 999999, false),
+  FIRMWARE: defineString(21, 'Firmware', false),
+  CONTROLLER_MODEL: defineString(22, 'Controller Model', false),
+};
+
+/**
+ * the registry of all known characteristics by their ID
+ */
+const registry: Map<number, SaunaCharacteristic> = new Map();
+Object.values(SaunaCharacteristics).forEach((characteristic: SaunaCharacteristic) => registry.set(characteristic.id, characteristic));
+
+/**
+ * This function looks up a characteristic by its ID.
+ * @param id the ID of the characteristic
+ * @returns the characteristic or undefined, if the ID is not known
+ */
+export function findCharacteristic(id: number): SaunaCharacteristic | undefined {
+  return registry.get(id);
+}
+
+/**
+ * This function returns the name of a characteristic as used in topics, URLs and on the command line (e.g. current_temperature).
+ * @param characteristic the characteristic
+ * @returns the name in lower case
+ */
+export function getCharacteristicKey(characteristic: SaunaCharacteristic): string {
+  const key = Object.keys(SaunaCharacteristics).find((candidate) => SaunaCharacteristics[candidate] === characteristic);
+  return key !== undefined ? key.toLowerCase() : String(characteristic.id);
+}
+
+/**
+ * This function looks up a characteristic by its name (e.g. current_temperature or current-temperature) or its ID.
+ * @param name the name or the ID
+ * @returns the characteristic or undefined, if the name is not known
+ */
+export function findCharacteristicByName(name: string): SaunaCharacteristic | undefined {
+  if (/^\d+$/.test(name)) {
+    return findCharacteristic(parseInt(name));
+  }
+  return SaunaCharacteristics[name.toUpperCase().replace(/-/g, '_')];
+}
+
+/**
+ * This function converts a value given as JSON (e.g. in a REST request), text is converted like parseCharacteristicValue.
+ * @param characteristic the characteristic
+ * @param value the value
+ * @returns the typed value (not yet validated, see serialize)
+ */
+export function convertCharacteristicValue(characteristic: SaunaCharacteristic, value: unknown): SaunaValue {
+  if (typeof value === 'string') {
+    return parseCharacteristicValue(characteristic, value);
+  }
+  const expected = characteristic.type === 'bool' ? 'boolean' : characteristic.type === 'string' ? 'string' : 'number';
+  if (typeof value !== expected) {
+    throw new Error('Value "' + value + '" for "' + characteristic.name + '" is not a ' + expected);
+  }
+  return value as SaunaValue;
+}
+
+/**
+ * This function converts a value given as text (e.g. on the command line or in an MQTT message).
+ * @param characteristic the characteristic
+ * @param text the value (on/off or true/false for booleans, the number or the name for enums)
+ * @returns the typed value (not yet validated, see serialize)
+ */
+export function parseCharacteristicValue(characteristic: SaunaCharacteristic, text: string): SaunaValue {
+  switch (characteristic.type) {
+    case 'bool':
+      if (['1', 'on', 'true'].includes(text.toLowerCase())) {
+        return true;
+      }
+      if (['0', 'off', 'false'].includes(text.toLowerCase())) {
+        return false;
+      }
+      throw new Error('Value "' + text + '" for "' + characteristic.name + '" is not on or off');
+    case 'enum': {
+      const values = characteristic.values || {};
+      const entry = Object.keys(values).find((value) => values[value].toLowerCase() === text.toLowerCase());
+      return entry !== undefined ? parseInt(entry) : parseNumber(characteristic, text);
+    }
+    case 'string':
+      return text;
+    default:
+      return parseNumber(characteristic, text);
+  }
+}
+
+/**
+ * This function converts a number given as text.
+ * @param characteristic the characteristic
+ * @param text the number
+ * @returns the number
+ */
+function parseNumber(characteristic: SaunaCharacteristic, text: string): number {
+  // Number() accepts an empty text as 0
+  const value = Number(text);
+  if (text.trim() === '' || isNaN(value)) {
+    throw new Error('Value "' + text + '" for "' + characteristic.name + '" is not a number');
+  }
+  return value;
+}
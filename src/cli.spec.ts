@@ -0,0 +1,98 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { PassThrough } from 'stream';
+import { main } from './cli';
+import { MockPronetGateway } from './mockGateway';
+import { SaunaCharacteristics } from './characteristics';
+import { PLATFORM_NAME } from './settings';
+
+describe('sentiotec CLI', () => {
+  let gateway: MockPronetGateway;
+  let port: number;
+
+  /**
+   * This function runs the command-line tool against the mock gateway.
+   * @param args the command and its arguments
+   * @returns a Promise with the exit code and the output
+   */
+  function run(...args: string[]): Promise<{ code: number; stdout: string; stderr: string }> {
+    const stdout = new PassThrough();
+    const stderr = new PassThrough();
+    const output: string[] = [];
+    const messages: string[] = [];
+    stdout.on('data', (data) => output.push(data.toString()));
+    stderr.on('data', (data) => messages.push(data.toString()));
+    return main(['--ip', '127.0.0.1', '--port', String(port), '--serial', 'SN1234', ...args], stdout, stderr,
+      { SENTIOTEC_PASSWORD: 'sentiotec' })
+      .then((code) => ({ code, stdout: output.join(''), stderr: messages.join('') }));
+  }
+
+  beforeEach(async () => {
+    gateway = new MockPronetGateway({ serial: 'SN1234', password: 'sentiotec' });
+    port = await gateway.start();
+  });
+
+  afterEach(async () => {
+    await gateway.stop();
+  });
+
+  it('dumps all values as JSON', async () => {
+    const result = await run('dump', '--json');
+    expect(result.code).toBe(0);
+    const values = JSON.parse(result.stdout);
+    expect(values).toContainEqual({ address: '183/0/2', sauna: 0, name: 'Target Temperature', raw: '90', value: 90 });
+  });
+
+  it('reads and writes a single characteristic', async () => {
+    await expect(run('get', '0', 'target_temperature')).resolves.toMatchObject({ code: 0, stdout: '90 °C\n' });
+    await expect(run('set', '0', 'active', 'on')).resolves.toMatchObject({ code: 0, stdout: 'on\n' });
+    expect(gateway.writes).toEqual([{ addr: '183/0/1', value: 1 }]);
+  });
+
+  it('checks a start with the safety policy of the configured sauna', async () => {
+    const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'sentiotec-cli-'));
+    const file = path.join(directory, 'config.json');
+    fs.writeFileSync(file, JSON.stringify({ platforms: [{ platform: PLATFORM_NAME, gateways: [{
+      serial: 'SN1234', unverifiedAddresses: true, saunas: [{ id: 0, name: 'Sauna', doorCheck: true, maxRuntime: 120 }],
+    }] }] }));
+    try {
+      gateway.setValue(0, SaunaCharacteristics.DOOR_OPEN.id, '1');
+      const result = await run('--config', file, 'set', '0', 'active', 'on');
+      expect(result.code).toBe(1);
+      expect(result.stderr).toContain('the cabin door is open');
+      await expect(run('--config', file, 'set', '0', 'heating_duration', '300')).resolves.toMatchObject({ code: 0, stdout: '120 min\n' });
+      expect(gateway.writes).toEqual([{ addr: '183/0/4', value: 120 }]);
+    } finally {
+      fs.rmSync(directory, { recursive: true, force: true });
+    }
+  });
+
+  it('replays a recorded capture without the gateway', async () => {
+    const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'sentiotec-cli-'));
+    const file = path.join(directory, 'capture.jsonl');
+    try {
+      const recorded = await run('dump', '--json', '--record', file);
+      await gateway.stop();
+      const replayed = await run('dump', '--json', '--replay', file);
+      expect(replayed.code).toBe(0);
+      expect(replayed.stdout).toBe(recorded.stdout);
+    } finally {
+      fs.rmSync(directory, { recursive: true, force: true });
+    }
+  });
+
+  it('reports errors with an exit code', async () => {
+    await expect(run('set', '0', 'current_temperature', '20')).resolves.toMatchObject({ code: 2 });
+    await expect(run('set', '0', 'target_temperature', '')).resolves.toMatchObject({ code: 2 });
+    await expect(run('set', '0', 'target_temperature', '500')).resolves.toMatchObject({ code: 2 });
+    await expect(run('get', '0', 'unknown')).resolves.toMatchObject({ code: 2 });
+    await expect(run('get', 'sauna', 'active')).resolves.toMatchObject({ code: 2 });
+    await expect(run('unknown')).resolves.toMatchObject({ code: 2 });
+    expect(gateway.connectionCount).toBe(0);
+    gateway.faults.rejectAuth = true;
+    const result = await run('auth');
+    expect(result.code).toBe(1);
+    expect(result.stderr).toContain('Authentication unsuccessful');
+  });
+});
@@ -0,0 +1,394 @@
+#!/usr/bin/env node
+import fs from 'fs';
+import { Logger } from 'homebridge';
+import {
+  GatewayConfig,
+  PLATFORM_NAME,
+  SaunaConfig,
+} from './settings';
+import {
+  SentiotecAPI,
+  SocketFactory,
+  getPasswordHash,
+} from './websocket';
+import {
+  SaunaCharacteristic,
+  SaunaCharacteristics,
+  SaunaValue,
+  findCharacteristic,
+  findCharacteristicByName,
+  parseCharacteristicValue,
+} from './characteristics';
+import { RedactingLogger } from './redaction';
+import { SafetyPolicy } from './safety';
+import {
+  checkWrite,
+  limitWrite,
+} from './bridge';
+import {
+  FrameRecorder,
+  FrameReplay,
+  readCapture,
+} from './frames';
+
+/**
+ * the usage of the command-line tool
+ */
+const USAGE = `Usage: sentiotec [options] <command>
+
+Commands:
+  auth                                   checks the connection and the login
+  dump [--json]                          prints all values of the gateway
+  watch                                  prints all frames until interrupted
+  get <sauna> <characteristic>           prints one value (characteristic by name, e.g. target_temperature, or ID)
+  set <sauna> <characteristic> <value>   writes one value (a start is checked by the safety policy of the sauna in the
+                                         Homebridge config) and prints the value confirmed by the controller
+
+Options:
+  --ip <ip>                 the IP of the Pronet
+  --port <port>             the port of the websocket (default 17001)
+  --serial <serial>         the serial of the Pronet
+  --user <user>             the user logging in (default root)
+  --password <password>     the password (or SENTIOTEC_PASSWORD)
+  --password-hash <hash>    the MD5 hash of the password (or SENTIOTEC_PASSWORD_HASH)
+  --tls                     connects via wss
+  --ca <file>               the PEM file with the CA certificates trusted for wss
+  --fingerprint <sha256>    the pinned fingerprint of the certificate for wss
+  --origin <origin>         the Origin header
+  --config <file>           reads the gateway and its saunas from the Homebridge config.json
+  --gateway <serial>        selects the gateway in the Homebridge config.json (default the first one)
+  --record <file>           records all frames to a capture file (JSON lines, without credentials)
+  --replay <file>           replays a capture file instead of connecting to the Pronet
+  --json                    prints JSON instead of a table
+  --verbose                 prints debug messages
+`;
+
+/**
+ * This interface defines the parsed command line
+ */
+export interface CommandLine {
+  /**
+   * the command and its arguments
+   */
+  args: string[];
+  /**
+   * the options by name (true for flags)
+   */
+  options: { [name: string]: string | true };
+}
+
+/**
+ * This interface defines a value to be read or written by get or set
+ */
+interface ValueRequest {
+  /**
+   * the ID of the sauna
+   */
+  saunaID: number;
+  /**
+   * the characteristic
+   */
+  characteristic: SaunaCharacteristic;
+  /**
+   * the typed value to be written (undefined for get)
+   */
+  value?: SaunaValue;
+}
+
+/**
+ * the options without a value
+ */
+const FLAGS = ['tls', 'json', 'verbose', 'help'];
+
+/**
+ * This function parses the command line.
+ * @param argv the arguments (without node and the script)
+ * @returns the command and the options
+ */
+export function parseCommandLine(argv: string[]): CommandLine {
+  const commandLine: CommandLine = { args: [], options: {} };
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (!arg.startsWith('--')) {
+      commandLine.args.push(arg);
+      continue;
+    }
+    const name = arg.substring(2);
+    if (FLAGS.includes(name)) {
+      commandLine.options[name] = true;
+    } else if (i + 1 < argv.length) {
+      commandLine.options[name] = argv[++i];
+    } else {
+      throw new Error('Missing value of option ' + arg);
+    }
+  }
+  return commandLine;
+}
+
+/**
+ * This function creates the gateway configuration from the options (and the Homebridge config with the saunas, if given).
+ * @param options the options
+ * @param env the environment variables
+ * @returns the gateway configuration
+ */
+export function createGatewayConfig(options: CommandLine['options'], env: NodeJS.ProcessEnv = {}): GatewayConfig {
+  let gatewayConfig: Partial<GatewayConfig> = {};
+  if (typeof options.config === 'string') {
+    const config = JSON.parse(fs.readFileSync(options.config, 'utf8'));
+    const platform = (config.platforms || []).find((platformConfig) => platformConfig.platform === PLATFORM_NAME);
+    const gateways: GatewayConfig[] = platform !== undefined && platform.gateways ? platform.gateways : [];
+    const gateway = typeof options.gateway === 'string' ? gateways.find((candidate) => candidate.serial === options.gateway) : gateways[0];
+    if (gateway === undefined) {
+      throw new Error('No matching gateway in ' + options.config);
+    }
+    gatewayConfig = { ...gateway };
+  }
+  const option = (name: string) => typeof options[name] === 'string' ? options[name] as string : undefined;
+  gatewayConfig.ip = option('ip') || gatewayConfig.ip;
+  gatewayConfig.serial = option('serial') || gatewayConfig.serial;
+  gatewayConfig.port = option('port') !== undefined ? parseInt(option('port')!) : gatewayConfig.port;
+  gatewayConfig.username = option('user') || gatewayConfig.username;
+  gatewayConfig.password = option('password') || env.SENTIOTEC_PASSWORD || gatewayConfig.password;
+  gatewayConfig.passwordHash = option('password-hash') || env.SENTIOTEC_PASSWORD_HASH || gatewayConfig.passwordHash;
+  gatewayConfig.tls = options.tls === true || gatewayConfig.tls;
+  gatewayConfig.ca = option('ca') || gatewayConfig.ca;
+  gatewayConfig.fingerprint = option('fingerprint') || gatewayConfig.fingerprint;
+  gatewayConfig.origin = option('origin') || gatewayConfig.origin;
+  gatewayConfig.replay = option('replay') || gatewayConfig.replay;
+  if (gatewayConfig.replay) {
+    // a replayed capture neither needs the address nor the credentials of the Pronet
+    return { ...gatewayConfig, saunas: gatewayConfig.saunas || [] } as GatewayConfig;
+  }
+  if (!gatewayConfig.ip || !gatewayConfig.serial) {
+    throw new Error('The IP and the serial of the Pronet are required');
+  }
+  if (!gatewayConfig.password && !gatewayConfig.passwordHash) {
+    throw new Error('The password or its hash is required');
+  }
+  return { ...gatewayConfig, saunas: gatewayConfig.saunas || [] } as GatewayConfig;
+}
+
+/**
+ * This function looks up a characteristic by its name (e.g. target_temperature) or its ID.
+ * @param name the name or the ID
+ * @returns the characteristic
+ */
+function lookupCharacteristic(name: string): SaunaCharacteristic {
+  const characteristic = findCharacteristicByName(name);
+  if (characteristic === undefined) {
+    throw new Error('Unknown characteristic "' + name + '", use one of ' + Object.keys(SaunaCharacteristics).join(', ').toLowerCase());
+  }
+  return characteristic;
+}
+
+/**
+ * This function checks the arguments of get and set, so an invalid command line is reported before connecting to the Pronet.
+ * @param command either get or set
+ * @param args the arguments of the command
+ * @returns the sauna, the characteristic and the value to be written
+ */
+function parseValueRequest(command: string, args: string[]): ValueRequest {
+  if (args.length !== (command === 'get' ? 2 : 3) || !/^\d+$/.test(args[0])) {
+    throw new Error('Invalid arguments of ' + command);
+  }
+  const request: ValueRequest = { saunaID: parseInt(args[0]), characteristic: lookupCharacteristic(args[1]) };
+  if (command === 'set') {
+    if (!request.characteristic.writable) {
+      throw new Error('"' + request.characteristic.name + '" cannot be set');
+    }
+    request.value = parseCharacteristicValue(request.characteristic, args[2]);
+    request.characteristic.serialize(request.value);
+  }
+  return request;
+}
+
+/**
+ * This function formats a typed value for the output.
+ * @param characteristic the characteristic
+ * @param value the typed value
+ * @returns the formatted value
+ */
+function formatValue(characteristic: SaunaCharacteristic, value: SaunaValue | undefined): string {
+  if (value === undefined) {
+    return '-';
+  }
+  if (characteristic.type === 'bool') {
+    return value ? 'on' : 'off';
+  }
+  if (characteristic.type === 'enum' && characteristic.values !== undefined && characteristic.values[value as number] !== undefined) {
+    return characteristic.values[value as number];
+  }
+  return String(value) + (characteristic.unit ? ' ' + characteristic.unit : '');
+}
+
+/**
+ * This function formats the raw values of the gateway as table or JSON.
+ * @param values the raw values by KNX address
+ * @param json indicates that JSON should be returned
+ * @returns the formatted values
+ */
+export function formatValues(values: Map<string, string>, json: boolean): string {
+  const rows = Array.from(values.entries())
+    .sort(([a], [b]) => a.localeCompare(b, undefined, { numeric: true }))
+    .map(([address, raw]) => {
+      const parts = address.split('/');
+      const characteristic = parts.length === 3 ? findCharacteristic(parseInt(parts[2])) : undefined;
+      return {
+        address,
+        sauna: parts.length === 3 ? parseInt(parts[1]) : undefined,
+        name: characteristic !== undefined ? characteristic.name : undefined,
+        raw,
+        value: characteristic !== undefined ? characteristic.parse(raw) : undefined,
+        display: characteristic !== undefined ? formatValue(characteristic, characteristic.parse(raw)) : raw,
+      };
+    });
+  if (json) {
+    return JSON.stringify(rows.map((row) => ({ address: row.address, sauna: row.sauna, name: row.name, raw: row.raw, value: row.value })),
+      undefined, 2);
+  }
+  const table = [['Address', 'Name', 'Value']].concat(rows.map((row) => [row.address, row.name || '?', row.display]));
+  const widths = [0, 1].map((column) => Math.max(...table.map((row) => row[column].length)));
+  return table.map((row) => row[0].padEnd(widths[0]) + '  ' + row[1].padEnd(widths[1]) + '  ' + row[2]).join('\n');
+}
+
+/**
+ * This function creates the logger of the command-line tool (messages go to stderr).
+ * @param stderr the stream for the messages
+ * @param verbose indicates that debug messages should be printed
+ * @returns the logger
+ */
+function createLogger(stderr: NodeJS.WritableStream, verbose: boolean): Logger {
+  const write = (level: string) => (message: string) => stderr.write('[' + level + '] ' + message + '\n');
+  return {
+    prefix: 'sentiotec',
+    info: write('info'),
+    warn: write('warn'),
+    error: write('error'),
+    debug: verbose ? write('debug') : () => undefined,
+    log: (level: string, message: string) => write(level)(message),
+  } as unknown as Logger;
+}
+
+/**
+ * This function runs the command-line tool.
+ * @param argv the arguments (without node and the script)
+ * @param stdout the stream for the output
+ * @param stderr the stream for the messages
+ * @param env the environment variables
+ * @returns a Promise with the exit code
+ */
+export function main(argv: string[], stdout: NodeJS.WritableStream = process.stdout, stderr: NodeJS.WritableStream = process.stderr,
+  env: NodeJS.ProcessEnv = process.env): Promise<number> {
+  let commandLine: CommandLine;
+  let gatewayConfig: GatewayConfig;
+  let request: ValueRequest | undefined;
+  try {
+    commandLine = parseCommandLine(argv);
+    if (commandLine.options.help === true || commandLine.args.length === 0) {
+      stdout.write(USAGE);
+      return Promise.resolve(commandLine.options.help === true ? 0 : 2);
+    }
+    gatewayConfig = createGatewayConfig(commandLine.options, env);
+    if (commandLine.args[0] === 'get' || commandLine.args[0] === 'set') {
+      request = parseValueRequest(commandLine.args[0], commandLine.args.slice(1));
+    }
+  } catch (error) {
+    stderr.write(error.message + '\n\n' + USAGE);
+    return Promise.resolve(2);
+  }
+
+  const log = new RedactingLogger(createLogger(stderr, commandLine.options.verbose === true));
+  log.addSerial(gatewayConfig.serial);
+  log.addSecret(gatewayConfig.password);
+  log.addSecret(gatewayConfig.passwordHash);
+  log.addSecret(getPasswordHash(gatewayConfig));
+  const command = commandLine.args[0];
+  const persistent = command === 'watch';
+  let createSocket: SocketFactory | undefined;
+  if (gatewayConfig.replay) {
+    try {
+      createSocket = new FrameReplay(log, readCapture(gatewayConfig.replay)).createSocket;
+    } catch (error) {
+      log.error('Reading the capture ' + gatewayConfig.replay + ' failed: ' + error.message);
+      return Promise.resolve(1);
+    }
+  }
+  const sentioAPI = new SentiotecAPI(log, { ...gatewayConfig, persistent }, createSocket);
+  if (typeof commandLine.options.record === 'string') {
+    new FrameRecorder(log, commandLine.options.record, (text) => log.redact(text)).attach(sentioAPI);
+  }
+  const print = (text: string) => {
+    stdout.write(text + '\n');
+  };
+
+  let execution: Promise<void>;
+  switch (command) {
+    case 'auth':
+      execution = sentioAPI.getValues()
+        .then(() => print('Authentication successful'));
+      break;
+    case 'dump':
+      execution = sentioAPI.getValues()
+        .then((values) => print(formatValues(values, commandLine.options.json === true)));
+      break;
+    case 'watch':
+      execution = new Promise((resolve) => {
+        sentioAPI.on('frame', (direction: string, data: string) => {
+          print(new Date().toISOString() + ' ' + (direction === 'in' ? '<' : '>') + ' ' + log.redact(data));
+        });
+        sentioAPI.on('state', (state: string) => log.info('Connection ' + state));
+        process.once('SIGINT', () => resolve());
+        process.once('SIGTERM', () => resolve());
+        sentioAPI.start();
+      });
+      break;
+    case 'get':
+      execution = sentioAPI.getCharacteristic(request!.saunaID, request!.characteristic)
+        .then((value) => print(formatValue(request!.characteristic, value)));
+      break;
+    case 'set': {
+      // the same checks as for a write via MQTT or REST (with the safety policy of the configured sauna, if any)
+      const { saunaID, characteristic } = request!;
+      const sauna: SaunaConfig = gatewayConfig.saunas.find((saunaConfig) => saunaConfig.id === saunaID) ||
+        { id: saunaID, name: 'Sauna ' + saunaID };
+      const gateway = {
+        serial: gatewayConfig.serial,
+        api: sentioAPI,
+        saunas: [sauna],
+        policies: new Map([[saunaID, new SafetyPolicy(log, sentioAPI, sauna)]]),
+        minutesToReady: new Map(),
+        targetTemperatureLimits: new Map(),
+      };
+      const value = limitWrite(gateway, saunaID, characteristic, request!.value!);
+      execution = checkWrite(gateway, saunaID, characteristic, value)
+        .then((refusal) => {
+          if (refusal !== undefined) {
+            throw new Error('Refused to set "' + characteristic.name + '": ' + refusal);
+          }
+          return sentioAPI.setCharacterstic(saunaID, characteristic, value);
+        })
+        .then((confirmed) => print(formatValue(characteristic, confirmed)));
+      break;
+    }
+    default:
+      stderr.write('Unknown command "' + command + '"\n\n' + USAGE);
+      return Promise.resolve(2);
+  }
+  return execution
+    .then(() => 0)
+    .catch((error) => {
+      log.error(error.message ? error.message : String(error));
+      return 1;
+    })
+    .then((code) => {
+      sentioAPI.stop();
+      return code;
+    });
+}
+
+if (require.main === module) {
+  main(process.argv.slice(2))
+    .then((code) => {
+      process.exitCode = code;
+    });
+}
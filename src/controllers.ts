@@ -0,0 +1,85 @@
+import {
+  SaunaCharacteristic,
+} from './characteristics';
+
+/**
+ * This interface defines the protocol dialect and the capabilities of a family of Sentiotec controllers
+ */
+export interface ControllerProfile {
+  /**
+   * the name of the profile (as configured)
+   */
+  readonly name: string;
+  /**
+   * the manufacturer shown in HomeKit
+   */
+  readonly manufacturer: string;
+  /**
+   * the model shown in HomeKit, until the controller reported its model
+   */
+  readonly model: string;
+  /**
+   * the first part of all KNX addresses (<prefix>/<sauna>/<id>)
+   */
+  readonly addressPrefix: string;
+  /**
+   * the default port of the websocket
+   */
+  readonly port: number;
+  /**
+   * the address of the last value sent with an update of all characteristics (<sauna>/<id>, without prefix)
+   */
+  readonly endAddress: string;
+  /**
+   * the controller models (as reported by the controller or in the handshake) using this dialect
+   */
+  readonly models: RegExp;
+  /**
+   * the tested major versions of the firmware
+   */
+  readonly firmware: number[];
+  /**
+   * the characteristics the controllers do not support
+   */
+  readonly unsupported: SaunaCharacteristic[];
+}
+
+/**
+ * the profile of the Pronet web gateway
+ */
+export const PRONET: ControllerProfile = {
+  name: 'pronet',
+  manufacturer: 'Sentiotec',
+  model: 'Pronet',
+  addressPrefix: '183',
+  port: 17001,
+  endAddress: '1/47',
+  models: /^pronet/i,
+  firmware: [1, 2],
+  unsupported: [],
+};
+
+/**
+ * All known controller profiles (the first one is used, if the controller cannot be detected). Only the Pronet dialect is known,
+ * other controller families are detected as unknown and reported with a warning until their protocol has been documented.
+ */
+export const CONTROLLER_PROFILES: ControllerProfile[] = [PRONET];
+
+/**
+ * This function detects the profile of a controller by its model.
+ * @param model the model reported by the controller
+ * @returns the profile or undefined, if the model is not known
+ */
+export function detectProfile(model: string): ControllerProfile | undefined {
+  return CONTROLLER_PROFILES.find((profile) => profile.models.test(model.trim()));
+}
+
+/**
+ * This function checks if a firmware version has been tested with a profile.
+ * @param profile the profile
+ * @param firmware the firmware version (e.g. 2.1.0)
+ * @returns true, if the major version is a tested one
+ */
+export function isTestedFirmware(profile: ControllerProfile, firmware: string): boolean {
+  return profile.firmware.includes(parseInt(firmware));
+}
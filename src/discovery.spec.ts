@@ -0,0 +1,28 @@
+import {
+  discoverGateways,
+  verifyGateway,
+} from './discovery';
+import { MockPronetGateway } from './mockGateway';
+
+describe('discovery', () => {
+  let gateway: MockPronetGateway;
+  let port: number;
+
+  beforeEach(async () => {
+    gateway = new MockPronetGateway({ serial: 'SN1234', password: 'sentiotec' });
+    port = await gateway.start();
+  });
+
+  afterEach(async () => {
+    await gateway.stop();
+  });
+
+  it('finds the hosts accepting a websocket on the Pronet port', async () => {
+    await expect(discoverGateways({ port, hosts: ['127.0.0.2', '127.0.0.1'] })).resolves.toEqual([{ ip: '127.0.0.1', port }]);
+  });
+
+  it('verifies the serial of a gateway', async () => {
+    await expect(verifyGateway('127.0.0.1', 'SN1234', port)).resolves.toBe(true);
+    await expect(verifyGateway('127.0.0.1', 'SN9999', port)).resolves.toBe(false);
+  });
+});
@@ -0,0 +1,175 @@
+import net from 'net';
+import os from 'os';
+import WebSocket from 'ws';
+import {
+  DEFAULT_PORT,
+  createHeaders,
+} from './websocket';
+
+/**
+ * the timeout for connecting to a host during the scan (0.5 sec)
+ */
+const PROBE_TIMEOUT = 500;
+/**
+ * the timeout for the handshake when verifying a serial (5 sec)
+ */
+const VERIFY_TIMEOUT = 5000;
+/**
+ * the number of hosts probed at the same time
+ */
+const PROBE_CONCURRENCY = 32;
+
+/**
+ * This interface defines a Pronet gateway found on the LAN
+ */
+export interface DiscoveredGateway {
+  /**
+   * the IP of the gateway
+   */
+  ip: string;
+  /**
+   * the port of the websocket
+   */
+  port: number;
+}
+
+/**
+ * This interface defines the options of a discovery
+ */
+export interface DiscoveryOptions {
+  /**
+   * the port of the Pronet websocket (default 17001)
+   */
+  port?: number;
+  /**
+   * the hosts to be probed (default all hosts of the local /24 subnets)
+   */
+  hosts?: string[];
+  /**
+   * the timeout for connecting to a host in ms
+   */
+  timeout?: number;
+}
+
+/**
+ * This function returns the hosts of the local IPv4 subnets (limited to the /24 subnet of every interface,
+ * so a large network is not flooded).
+ * @returns the IPs of the hosts (without the own addresses)
+ */
+export function getLocalHosts(): string[] {
+  const own: string[] = [];
+  const prefixes: string[] = [];
+  const interfaces = os.networkInterfaces();
+  for (const name of Object.keys(interfaces)) {
+    for (const address of interfaces[name] || []) {
+      if (address.family !== 'IPv4' || address.internal) {
+        continue;
+      }
+      own.push(address.address);
+      const prefix = address.address.split('.').slice(0, 3).join('.');
+      if (!prefixes.includes(prefix)) {
+        prefixes.push(prefix);
+      }
+    }
+  }
+  const hosts: string[] = [];
+  for (const prefix of prefixes) {
+    for (let host = 1; host < 255; host++) {
+      const ip = prefix + '.' + host;
+      if (!own.includes(ip)) {
+        hosts.push(ip);
+      }
+    }
+  }
+  return hosts;
+}
+
+/**
+ * This function checks if a host accepts a websocket on the Pronet port.
+ * @param ip the IP of the host
+ * @param port the port of the websocket
+ * @param timeout the timeout in ms
+ * @returns a Promise with true, if the host accepted the websocket
+ */
+export function probeGateway(ip: string, port: number, timeout: number = PROBE_TIMEOUT): Promise<boolean> {
+  return new Promise((resolve) => {
+    // a plain TCP connection first, as most hosts do not listen on the port at all
+    const socket = net.connect({ host: ip, port, timeout });
+    socket.on('connect', () => {
+      socket.destroy();
+      const websocket = new WebSocket('ws://' + ip + ':' + port + '/', { headers: createHeaders(ip), handshakeTimeout: timeout });
+      websocket.on('open', () => {
+        websocket.terminate();
+        resolve(true);
+      });
+      websocket.on('error', () => resolve(false));
+    });
+    socket.on('timeout', () => {
+      socket.destroy();
+      resolve(false);
+    });
+    socket.on('error', () => resolve(false));
+  });
+}
+
+/**
+ * This function scans the LAN for Pronet gateways (hosts accepting a websocket on the Pronet port).
+ * The serials cannot be discovered, as the Pronet neither broadcasts nor sends its serial, they have to be checked with verifyGateway.
+ * @param options the options of the discovery
+ * @returns a Promise with the gateways found
+ */
+export function discoverGateways(options: DiscoveryOptions = {}): Promise<DiscoveredGateway[]> {
+  const port = options.port || DEFAULT_PORT;
+  const hosts = options.hosts || getLocalHosts();
+  const found: DiscoveredGateway[] = [];
+  let next = 0;
+  const worker = (): Promise<void> => {
+    if (next >= hosts.length) {
+      return Promise.resolve();
+    }
+    const ip = hosts[next++];
+    return probeGateway(ip, port, options.timeout)
+      .then((accepted) => {
+        if (accepted) {
+          found.push({ ip, port });
+        }
+        return worker();
+      });
+  };
+  const workers: Promise<void>[] = [];
+  for (let i = 0; i < Math.min(PROBE_CONCURRENCY, hosts.length); i++) {
+    workers.push(worker());
+  }
+  return Promise.all(workers)
+    .then(() => found.sort((a, b) => hosts.indexOf(a.ip) - hosts.indexOf(b.ip)));
+}
+
+/**
+ * This function checks if a serial belongs to a gateway (the Pronet only accepts a connection for its own serial).
+ * @param ip the IP of the gateway
+ * @param serial the serial to be checked
+ * @param port the port of the websocket
+ * @returns a Promise with true, if the gateway accepted the connection
+ */
+export function verifyGateway(ip: string, serial: string, port: number = DEFAULT_PORT): Promise<boolean> {
+  return new Promise((resolve) => {
+    const websocket = new WebSocket('ws://' + ip + ':' + port + '/' + serial, { headers: createHeaders(ip) });
+    const finish = (accepted: boolean) => {
+      clearTimeout(timeout);
+      websocket.removeAllListeners();
+      websocket.on('error', () => undefined);
+      websocket.terminate();
+      resolve(accepted);
+    };
+    const timeout = setTimeout(() => finish(false), VERIFY_TIMEOUT);
+    websocket.on('message', (data) => {
+      try {
+        finish(JSON.parse(data.toString()).cmd === 'cmd_on_accept');
+      } catch (error) {
+        finish(false);
+      }
+    });
+    websocket.on('close', () => finish(false));
+    websocket.on('error', () => finish(false));
+  });
+}
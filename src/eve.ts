@@ -0,0 +1,83 @@
+import {
+  Characteristic,
+  HAP,
+  WithUUID,
+} from 'homebridge';
+
+/**
+ * the UUID of the Eve history service
+ */
+export const EVE_HISTORY_UUID = 'E863F007-079E-48FF-8F27-9C2605A29F52';
+
+/**
+ * This interface defines the custom characteristics of the Eve app
+ */
+export interface EveCharacteristics {
+  /**
+   * the current power consumption in W
+   */
+  CurrentConsumption: WithUUID<new () => Characteristic>;
+  /**
+   * the total energy consumption in kWh
+   */
+  TotalConsumption: WithUUID<new () => Characteristic>;
+}
+
+/**
+ * This function creates the custom characteristics of the Eve app (the HAP classes are only available at runtime).
+ * @param hap the HAP API of Homebridge
+ * @returns the characteristic classes
+ */
+export function createEveCharacteristics(hap: HAP): EveCharacteristics {
+  /**
+   * the current power consumption (shown by the Eve app)
+   */
+  class CurrentConsumption extends hap.Characteristic {
+    /**
+     * the UUID of the characteristic
+     */
+    static readonly UUID: string = 'E863F10D-079E-48FF-8F27-9C2605A29F52';
+
+    /**
+     * the constructor
+     */
+    constructor() {
+      super('Consumption', CurrentConsumption.UUID, {
+        format: hap.Formats.FLOAT,
+        unit: 'W',
+        minValue: 0,
+        maxValue: 100000,
+        minStep: 0.1,
+        perms: [hap.Perms.PAIRED_READ, hap.Perms.NOTIFY],
+      });
+      this.value = this.getDefaultValue();
+    }
+  }
+
+  /**
+   * the total energy consumption (shown by the Eve app)
+   */
+  class TotalConsumption extends hap.Characteristic {
+    /**
+     * the UUID of the characteristic
+     */
+    static readonly UUID: string = 'E863F10C-079E-48FF-8F27-9C2605A29F52';
+
+    /**
+     * the constructor
+     */
+    constructor() {
+      super('Total Consumption', TotalConsumption.UUID, {
+        format: hap.Formats.FLOAT,
+        unit: 'kWh',
+        minValue: 0,
+        maxValue: 1000000,
+        minStep: 0.01,
+        perms: [hap.Perms.PAIRED_READ, hap.Perms.NOTIFY],
+      });
+      this.value = this.getDefaultValue();
+    }
+  }
+
+  return { CurrentConsumption, TotalConsumption };
+}
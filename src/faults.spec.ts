@@ -0,0 +1,26 @@
+import {
+  NO_FAULT,
+  decodeFault,
+} from './faults';
+
+describe('decodeFault', () => {
+  it('reports no fault', () => {
+    expect(decodeFault(NO_FAULT)).toBeUndefined();
+    expect(decodeFault(NaN)).toBeUndefined();
+  });
+
+  it('describes the known fault codes as unconfirmed', () => {
+    expect(decodeFault(3)).toEqual({ code: 3, description: 'Unconfirmed: Overheating protection triggered', severity: 'critical' });
+    expect(decodeFault(1)!.description).toBe('Unconfirmed: Temperature sensor break');
+  });
+
+  it('reports unknown fault codes', () => {
+    expect(decodeFault(42)).toEqual({ code: 42, description: 'Unknown fault', severity: 'critical' });
+  });
+
+  it('treats every fault as critical as long as the codes are not confirmed', () => {
+    for (let code = 1; code <= 10; code++) {
+      expect(decodeFault(code)!.severity).toBe('critical');
+    }
+  });
+});
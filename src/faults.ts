@@ -0,0 +1,61 @@
+/**
+ * the severity of a fault (a critical fault stops the heater)
+ */
+export type FaultSeverity = 'warning' | 'critical';
+
+/**
+ * This interface defines a fault reported by the sauna controller
+ */
+export interface SaunaFault {
+  /**
+   * the fault code as reported by the controller
+   */
+  readonly code: number;
+  /**
+   * the human readable description
+   */
+  readonly description: string;
+  /**
+   * the severity of the fault
+   */
+  readonly severity: FaultSeverity;
+}
+
+/**
+ * the fault code reported, if everything is fine
+ */
+export const NO_FAULT = 0;
+
+/**
+ * the assumed meaning of the fault codes of the Pronet controller. The codes have not been confirmed by the controller documentation
+ * or captured frames yet, so the descriptions are only hints and every fault is treated as critical.
+ */
+const FAULTS: { [code: number]: string } = {
+  1: 'Temperature sensor break',
+  2: 'Temperature sensor short circuit',
+  3: 'Overheating protection triggered',
+  4: 'Door contact open while heating',
+  5: 'Bench sensor error',
+  6: 'Humidity sensor error',
+  7: 'Vaporizer water shortage',
+  8: 'No communication with the power unit',
+  9: 'Maximum heating time exceeded',
+};
+
+/**
+ * This function decodes a fault code of the controller.
+ * @param code the fault code
+ * @returns the fault or undefined, if no fault is reported
+ */
+export function decodeFault(code: number): SaunaFault | undefined {
+  if (code === NO_FAULT || isNaN(code)) {
+    return undefined;
+  }
+  const description = FAULTS[code];
+  // better safe than sorry, as long as the codes are not confirmed
+  return {
+    code,
+    description: description !== undefined ? 'Unconfirmed: ' + description : 'Unknown fault',
+    severity: 'critical',
+  };
+}
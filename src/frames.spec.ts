@@ -0,0 +1,89 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  SentiotecAPI,
+  hashPassword,
+} from './websocket';
+import {
+  FrameRecorder,
+  FrameReplay,
+  readCapture,
+} from './frames';
+import { SaunaCharacteristics } from './characteristics';
+import { RedactingLogger } from './redaction';
+import { MockPronetGateway } from './mockGateway';
+import { createLogger } from './testUtils';
+
+describe('FrameRecorder and FrameReplay', () => {
+  let directory: string;
+  let gateway: MockPronetGateway;
+  let port: number;
+  let api: SentiotecAPI;
+
+  beforeEach(async () => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'sentiotec-frames-'));
+    gateway = new MockPronetGateway({ serial: 'SN1234', password: 'sentiotec' });
+    port = await gateway.start();
+  });
+
+  afterEach(async () => {
+    if (api !== undefined) {
+      api.stop();
+    }
+    await gateway.stop();
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  /**
+   * This function records a session with the mock gateway.
+   * @param file the capture file
+   * @returns a Promise with the values received
+   */
+  function recordSession(file: string): Promise<Map<string, string>> {
+    const log = new RedactingLogger(createLogger());
+    log.addSerial('SN1234');
+    log.addSecret(hashPassword('sentiotec'));
+    api = new SentiotecAPI(log, { ip: '127.0.0.1', port, serial: 'SN1234', password: 'sentiotec', saunas: [] });
+    new FrameRecorder(log, file, (text) => log.redact(text)).attach(api);
+    return api.getValues();
+  }
+
+  it('records all frames without credentials', async () => {
+    const file = path.join(directory, 'capture.jsonl');
+    await recordSession(file);
+    const content = fs.readFileSync(file, 'utf8');
+    expect(content).not.toContain('SN1234');
+    expect(content).not.toContain(hashPassword('sentiotec'));
+    const frames = readCapture(file);
+    expect(frames.slice(0, 4).map((frame) => frame.direction + ' ' + JSON.parse(frame.data).cmd)).toEqual([
+      'in cmd_on_accept', 'out cmd_request_auth', 'in cmd_auth_response', 'out cmd_request_update_all',
+    ]);
+    expect(frames[1].data).toContain('"sn":"SN****"');
+  });
+
+  it('rotates the capture file', () => {
+    const file = path.join(directory, 'capture.jsonl');
+    const recorder = new FrameRecorder(createLogger(), file, (text) => text, 200, 2);
+    for (let i = 0; i < 10; i++) {
+      recorder.record('in', JSON.stringify({ cmd: 'cmd_knx_write', addr: '183/0/3', value: String(i) }));
+    }
+    expect(fs.existsSync(file + '.1')).toBe(true);
+    expect(fs.existsSync(file + '.2')).toBe(true);
+    expect(fs.existsSync(file + '.3')).toBe(false);
+    expect(fs.statSync(file).size).toBeLessThanOrEqual(200);
+    expect(readCapture(file).pop()!.data).toContain('"value":"9"');
+  });
+
+  it('replays a recorded session instead of connecting', async () => {
+    const file = path.join(directory, 'capture.jsonl');
+    const values = await recordSession(file);
+    api.stop();
+    await gateway.stop();
+    const replay = new FrameReplay(createLogger(), readCapture(file));
+    api = new SentiotecAPI(createLogger(), { ip: '127.0.0.1', port, serial: 'SN1234', saunas: [] }, replay.createSocket);
+    await expect(api.getValues()).resolves.toEqual(values);
+    await expect(api.getCharacteristic(0, SaunaCharacteristics.CURRENT_TEMPERATURE)).resolves.toBe(21.5);
+    expect(replay.isFinished()).toBe(true);
+  });
+});
@@ -0,0 +1,284 @@
+import fs from 'fs';
+import { EventEmitter } from 'events';
+import { Logger } from 'homebridge';
+import {
+  PronetSocket,
+  SentiotecAPI,
+  SocketFactory,
+} from './websocket';
+
+/**
+ * the default maximum size of a capture file before it is rotated (1 MB)
+ */
+export const DEFAULT_MAX_SIZE = 1024 * 1024;
+/**
+ * the default number of rotated capture files kept
+ */
+export const DEFAULT_MAX_FILES = 3;
+
+/**
+ * This interface defines a frame recorded from the connection to a gateway (one line of a capture file)
+ */
+export interface CapturedFrame {
+  /**
+   * the time the frame has been received or sent (ISO 8601)
+   */
+  time: string;
+  /**
+   * the direction (in: sent by the gateway, out: sent by the plugin)
+   */
+  direction: 'in' | 'out';
+  /**
+   * the raw JSON of the frame (without credentials)
+   */
+  data: string;
+}
+
+/**
+ * This function returns the command of a frame.
+ * @param data the raw JSON of the frame
+ * @returns the command (undefined, if the frame is not valid)
+ */
+function getCommand(data: string): string | undefined {
+  try {
+    return JSON.parse(data).cmd;
+  } catch (error) {
+    return undefined;
+  }
+}
+
+/**
+ * This function reads a capture file written by the frame recorder.
+ * @param file the path of the capture file
+ * @returns the frames in the order they have been recorded (invalid lines are skipped)
+ */
+export function readCapture(file: string): CapturedFrame[] {
+  return fs.readFileSync(file, 'utf8')
+    .split('\n')
+    .map((line) => {
+      try {
+        return JSON.parse(line);
+      } catch (error) {
+        return undefined;
+      }
+    })
+    .filter((frame) => frame !== undefined && (frame.direction === 'in' || frame.direction === 'out') && typeof frame.data === 'string');
+}
+
+/**
+ * This class records all frames of a gateway connection to a capture file (JSON lines) for bug reports.
+ * Credentials and serials are redacted before writing and the file is rotated as soon as it exceeds its maximum size
+ * (file.1 is the most recent rotated file). The frames are written synchronously, so the capture is complete even on a crash.
+ */
+export class FrameRecorder {
+  /**
+   * the current size of the capture file
+   */
+  private size = 0;
+  /**
+   * indicates that writing the capture file failed (the error is logged only once)
+   */
+  private failed = false;
+
+  /**
+   * the constructor
+   * @param log the logger to be used
+   * @param file the path of the capture file
+   * @param redact the function removing credentials and serials from a frame
+   * @param maxSize the maximum size of the capture file in bytes
+   * @param maxFiles the number of rotated capture files kept
+   */
+  constructor(private readonly log: Logger, private readonly file: string, private readonly redact: (text: string) => string,
+    private readonly maxSize = DEFAULT_MAX_SIZE, private readonly maxFiles = DEFAULT_MAX_FILES) {
+    if (fs.existsSync(file)) {
+      this.size = fs.statSync(file).size;
+    }
+  }
+
+  /**
+   * This function starts recording the frames of a gateway.
+   * @param sentioAPI the API of the gateway
+   */
+  public attach(sentioAPI: SentiotecAPI) {
+    this.log.info('Recording the frames of the Pronet gateway to ' + this.file);
+    sentioAPI.on('frame', this.record.bind(this));
+  }
+
+  /**
+   * This function appends a frame to the capture file.
+   * @param direction the direction (in: sent by the gateway, out: sent by the plugin)
+   * @param data the raw JSON of the frame
+   */
+  public record(direction: 'in' | 'out', data: string) {
+    const frame: CapturedFrame = { time: new Date().toISOString(), direction, data: this.redact(data) };
+    const line = JSON.stringify(frame) + '\n';
+    try {
+      if (this.size > 0 && this.size + Buffer.byteLength(line) > this.maxSize) {
+        this.rotate();
+      }
+      fs.appendFileSync(this.file, line);
+      this.size += Buffer.byteLength(line);
+      this.failed = false;
+    } catch (error) {
+      if (!this.failed) {
+        this.log.error('Recording the frame to ' + this.file + ' failed: ' + error.message);
+        this.failed = true;
+      }
+    }
+  }
+
+  /**
+   * This function rotates the capture files (file becomes file.1, file.1 becomes file.2 and the oldest one is deleted).
+   */
+  private rotate() {
+    for (let index = this.maxFiles; index >= 1; index--) {
+      const source = index === 1 ? this.file : this.file + '.' + (index - 1);
+      if (!fs.existsSync(source)) {
+        continue;
+      }
+      fs.renameSync(source, this.file + '.' + index);
+    }
+    if (this.maxFiles < 1) {
+      fs.unlinkSync(this.file);
+    }
+    this.size = 0;
+  }
+}
+
+/**
+ * This class replays a capture instead of connecting to a gateway, so that an issue can be reproduced without the sauna.
+ * The recorded frames of the gateway are sent in order, each time up to the next frame recorded as sent by the plugin,
+ * which is awaited before the replay continues. A recorded reconnection closes the transport, the next one continues the capture.
+ */
+export class FrameReplay {
+  /**
+   * the index of the next frame to be replayed
+   */
+  private position = 0;
+
+  /**
+   * the constructor
+   * @param log the logger to be used
+   * @param frames the recorded frames
+   */
+  constructor(private readonly log: Logger, private readonly frames: CapturedFrame[]) {
+  }
+
+  /**
+   * This function creates the transport to be passed to the API instead of a websocket.
+   * @returns a transport replaying the next frames of the capture
+   */
+  public readonly createSocket: SocketFactory = () => new ReplaySocket(this);
+
+  /**
+   * This function returns if all frames have been replayed.
+   * @returns true, if the capture is finished
+   */
+  public isFinished(): boolean {
+    return this.position >= this.frames.length;
+  }
+
+  /**
+   * This function handles a frame sent by the plugin (it is compared with the next frame recorded as sent by the plugin).
+   * @param data the raw JSON of the frame
+   */
+  public onSent(data: string) {
+    const frame = this.frames[this.position];
+    if (frame === undefined || frame.direction !== 'out') {
+      this.log.debug('Replay: ' + getCommand(data) + ' sent, but not part of the capture');
+      return;
+    }
+    this.position++;
+    if (getCommand(frame.data) !== getCommand(data)) {
+      this.log.debug('Replay: ' + getCommand(data) + ' sent instead of the recorded ' + getCommand(frame.data));
+    }
+  }
+
+  /**
+   * This function returns the next frame sent by the gateway and advances the replay.
+   * @param opening indicates that the frame is the first one of a new transport
+   * @returns the raw JSON of the frame (undefined, if a frame of the plugin is awaited next or the recorded connection ended)
+   */
+  public nextReceived(opening: boolean): string | undefined {
+    const frame = this.frames[this.position];
+    if (frame === undefined || frame.direction !== 'in' || (!opening && getCommand(frame.data) === 'cmd_on_accept')) {
+      return undefined;
+    }
+    this.position++;
+    return frame.data;
+  }
+
+  /**
+   * This function returns if the recorded connection ended (the next frame of the gateway opens a new connection).
+   * @returns true, if the transport should be closed
+   */
+  public isReconnecting(): boolean {
+    const frame = this.frames[this.position];
+    return frame !== undefined && frame.direction === 'in' && getCommand(frame.data) === 'cmd_on_accept';
+  }
+}
+
+/**
+ * This class is the transport of a replayed connection. It behaves like a websocket to the gateway.
+ */
+class ReplaySocket extends EventEmitter implements PronetSocket {
+  /**
+   * indicates that the transport has been closed
+   */
+  private closed = false;
+
+  /**
+   * the constructor
+   * @param replay the replay of the capture
+   */
+  constructor(private readonly replay: FrameReplay) {
+    super();
+    setImmediate(() => this.receive(true));
+  }
+
+  /**
+   * This function sends a frame to the replayed gateway and continues the replay.
+   * @param data the raw JSON of the frame
+   */
+  public send(data: string) {
+    if (this.closed) {
+      return;
+    }
+    this.replay.onSent(data);
+    setImmediate(() => this.receive(false));
+  }
+
+  /**
+   * This function answers a ping like the gateway.
+   */
+  public ping() {
+    setImmediate(() => {
+      if (!this.closed) {
+        this.emit('pong');
+      }
+    });
+  }
+
+  /**
+   * This function closes the transport.
+   */
+  public close() {
+    this.closed = true;
+  }
+
+  /**
+   * This function emits the frames of the gateway up to the next frame of the plugin.
+   * @param opening indicates that the transport has just been opened
+   */
+  private receive(opening: boolean) {
+    let data: string | undefined;
+    while (!this.closed && (data = this.replay.nextReceived(opening)) !== undefined) {
+      opening = false;
+      this.emit('message', data);
+    }
+    if (!this.closed && !opening && this.replay.isReconnecting()) {
+      this.closed = true;
+      this.emit('close');
+    }
+  }
+}
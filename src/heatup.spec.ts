@@ -0,0 +1,60 @@
+import {
+  HeatUpEstimator,
+  HeatUpState,
+} from './heatup';
+import { createLogger } from './testUtils';
+
+describe('HeatUpEstimator', () => {
+  let state: HeatUpState;
+  let estimator: HeatUpEstimator;
+
+  beforeEach(() => {
+    state = {} as HeatUpState;
+    estimator = new HeatUpEstimator(createLogger(), state);
+    jest.useFakeTimers('modern');
+    jest.setSystemTime(new Date(2021, 5, 4, 18, 0));
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('estimates the heat-up time with the default rate', () => {
+    expect(estimator.rate).toBe(1.2);
+    expect(estimator.estimateMinutes(20, 90)).toBe(59);
+    expect(estimator.estimateMinutes(90, 80)).toBe(0);
+  });
+
+  it('learns the rate from a heating session', () => {
+    estimator.setTarget(80);
+    estimator.addTemperature(20);
+    estimator.setActive(true);
+    jest.advanceTimersByTime(15 * 60000);
+    estimator.addTemperature(50);
+    jest.advanceTimersByTime(15 * 60000);
+    estimator.addTemperature(80);
+    expect(state).toEqual({ rate: 2, sessions: 1 });
+    expect(estimator.estimateMinutes(20, 80)).toBe(30);
+  });
+
+  it('does not learn from a small rise', () => {
+    estimator.setTarget(80);
+    estimator.addTemperature(75);
+    estimator.setActive(true);
+    jest.advanceTimersByTime(10 * 60000);
+    estimator.addTemperature(80);
+    expect(state).toEqual({ rate: 1.2, sessions: 0 });
+  });
+
+  it('estimates the minutes to ready while heating', () => {
+    estimator.setTarget(90);
+    estimator.addTemperature(40);
+    expect(estimator.getMinutesToReady(5)).toBeUndefined();
+    estimator.setActive(true);
+    expect(estimator.getMinutesToReady(5)).toBe(38);
+    expect(estimator.isReady(5)).toBe(false);
+    estimator.addTemperature(86);
+    expect(estimator.getMinutesToReady(5)).toBe(0);
+    expect(estimator.isReady(5)).toBe(true);
+  });
+});
@@ -0,0 +1,156 @@
+import { Logger } from 'homebridge';
+
+/**
+ * the heat-up rate assumed until a heating session has been observed (°C per minute)
+ */
+const DEFAULT_HEATUP_RATE = 1.2;
+/**
+ * the weight of a newly observed heating session for the learned rate
+ */
+const LEARNING_FACTOR = 0.3;
+/**
+ * the minimum temperature rise of a session to be used for learning (°C)
+ */
+const MIN_LEARNING_RISE = 10;
+
+/**
+ * This interface defines the learned heating curve, which is stored in the accessory context
+ */
+export interface HeatUpState {
+  /**
+   * the learned heat-up rate in °C per minute
+   */
+  rate: number;
+  /**
+   * the number of heating sessions the rate has been learned from
+   */
+  sessions: number;
+}
+
+/**
+ * This class learns how fast a sauna heats up from the current temperature while heating and estimates the time to reach a target.
+ */
+export class HeatUpEstimator {
+  /**
+   * the learned heating curve
+   */
+  private readonly state: HeatUpState;
+  /**
+   * the start of the current heating session (time and temperature)
+   */
+  private sessionStart?: { time: number; temperature: number };
+  /**
+   * indicates that the sauna is heating
+   */
+  private active = false;
+  /**
+   * the last current temperature
+   */
+  private temperature?: number;
+  /**
+   * the current target temperature
+   */
+  private target?: number;
+
+  /**
+   * the constructor
+   * @param log the logger to be used
+   * @param state the stored heating curve (will be updated in place)
+   */
+  constructor(private readonly log: Logger, state: HeatUpState) {
+    if (state.rate === undefined || state.rate <= 0) {
+      state.rate = DEFAULT_HEATUP_RATE;
+      state.sessions = 0;
+    }
+    this.state = state;
+  }
+
+  /**
+   * This function returns the learned heat-up rate.
+   * @returns the heat-up rate in °C per minute
+   */
+  public get rate(): number {
+    return this.state.rate;
+  }
+
+  /**
+   * This function records the on/off state of the sauna.
+   * @param active indicates that the sauna is heating
+   */
+  public setActive(active: boolean) {
+    if (active && !this.active && this.temperature !== undefined) {
+      this.sessionStart = { time: Date.now(), temperature: this.temperature };
+    }
+    if (!active) {
+      this.sessionStart = undefined;
+    }
+    this.active = active;
+  }
+
+  /**
+   * This function records the target temperature.
+   * @param target the target temperature
+   */
+  public setTarget(target: number) {
+    this.target = target;
+  }
+
+  /**
+   * This function records a current temperature and learns the rate once the target has been reached.
+   * @param temperature the current temperature
+   */
+  public addTemperature(temperature: number) {
+    this.temperature = temperature;
+    if (this.active && this.sessionStart === undefined) {
+      this.sessionStart = { time: Date.now(), temperature };
+    }
+    if (this.sessionStart === undefined || this.target === undefined || temperature < this.target) {
+      return;
+    }
+    // target reached, so the session can be learned
+    const rise = temperature - this.sessionStart.temperature;
+    const minutes = (Date.now() - this.sessionStart.time) / 60000;
+    this.sessionStart = undefined;
+    if (rise < MIN_LEARNING_RISE || minutes <= 0) {
+      return;
+    }
+    const sessionRate = rise / minutes;
+    this.state.rate = this.state.sessions === 0 ? sessionRate : this.state.rate * (1 - LEARNING_FACTOR) + sessionRate * LEARNING_FACTOR;
+    this.state.sessions++;
+    this.log.info('Learned heat-up rate of ' + this.state.rate.toFixed(2) + ' °C/min (' + this.state.sessions + ' sessions)');
+  }
+
+  /**
+   * This function returns if the sauna is heating and within the tolerance of the target temperature.
+   * @param tolerance the tolerance in °C
+   * @returns true, if the sauna is ready
+   */
+  public isReady(tolerance: number): boolean {
+    return this.active && this.temperature !== undefined && this.target !== undefined && this.temperature >= this.target - tolerance;
+  }
+
+  /**
+   * This function estimates the time until the sauna is ready.
+   * @param tolerance the tolerance in °C
+   * @returns the estimated minutes to ready (0 if ready) or undefined, if the sauna is not heating or the temperatures are not known
+   */
+  public getMinutesToReady(tolerance: number): number | undefined {
+    if (!this.active || this.temperature === undefined || this.target === undefined) {
+      return undefined;
+    }
+    return this.estimateMinutes(this.temperature, this.target - tolerance);
+  }
+
+  /**
+   * This function estimates the time needed to heat up.
+   * @param from the start temperature
+   * @param to the target temperature
+   * @returns the estimated heat-up time in minutes
+   */
+  public estimateMinutes(from: number, to: number): number {
+    if (to <= from) {
+      return 0;
+    }
+    return Math.ceil((to - from) / this.state.rate);
+  }
+}
@@ -0,0 +1,11 @@
+import { API } from 'homebridge';
+
+import { PLATFORM_NAME } from './settings';
+import { SentiotecPlatform } from './platform';
+
+/**
+ * This method registers the platform with Homebridge
+ */
+export = (api: API) => {
+  api.registerPlatform(PLATFORM_NAME, SentiotecPlatform);
+};
@@ -0,0 +1,96 @@
+import http from 'http';
+import {
+  MetricsServer,
+  hashSerial,
+} from './metricsServer';
+import { SentiotecAPI } from './websocket';
+import { MockPronetGateway } from './mockGateway';
+import { createLogger } from './testUtils';
+
+describe('MetricsServer', () => {
+  // the gateway label of the serial SN1234
+  const GATEWAY = hashSerial('SN1234');
+  let gateway: MockPronetGateway;
+  let gatewayPort: number;
+  let api: SentiotecAPI;
+  let server: MetricsServer;
+  let port: number;
+
+  /**
+   * This function sends a GET request to the metrics server.
+   * @param path the path
+   * @returns a Promise with the status, the content type and the body
+   */
+  function request(path: string): Promise<{ status: number; type: string; body: string }> {
+    return new Promise((resolve, reject) => {
+      http.get({ host: '127.0.0.1', port, path }, (res) => {
+        let data = '';
+        res.on('data', (chunk) => data += chunk);
+        res.on('end', () => resolve({ status: res.statusCode!, type: res.headers['content-type']!, body: data }));
+      }).on('error', reject);
+    });
+  }
+
+  /**
+   * This function starts the metrics server for one gateway.
+   * @param password the password used by the API
+   */
+  async function startServer(password = 'sentiotec') {
+    const sauna = { id: 0, name: 'Sauna "Garden"' };
+    api = new SentiotecAPI(createLogger(), { ip: '127.0.0.1', port: gatewayPort, serial: 'SN1234', password, saunas: [sauna] });
+    server = new MetricsServer(createLogger(),
+      [{ serial: 'SN1234', api, saunas: [sauna], policies: new Map(), minutesToReady: new Map(), targetTemperatureLimits: new Map() }],
+      { port: 0 });
+    port = await server.start();
+  }
+
+  beforeEach(async () => {
+    gateway = new MockPronetGateway({ serial: 'SN1234', password: 'sentiotec' });
+    gatewayPort = await gateway.start();
+  });
+
+  afterEach(async () => {
+    await server.stop();
+    api.stop();
+    await gateway.stop();
+  });
+
+  it('exports the metrics of the gateway and the saunas', async () => {
+    await startServer();
+    await api.getValues();
+    const metrics = await request('/metrics');
+    expect(metrics.status).toBe(200);
+    expect(metrics.type).toBe('text/plain; version=0.0.4');
+    expect(metrics.body).toContain('# TYPE sentiotec_gateway_connections_total counter\n' +
+      'sentiotec_gateway_connections_total{gateway="' + GATEWAY + '"} 1\n');
+    expect(metrics.body).toContain('sentiotec_gateway_state{gateway="' + GATEWAY + '",state="ready"} 1\n');
+    expect(metrics.body).toContain('sentiotec_gateway_refreshes_total{gateway="' + GATEWAY + '"} 1\n');
+    expect(metrics.body).toMatch(new RegExp('sentiotec_gateway_cache_age_seconds\\{gateway="' + GATEWAY + '"\\} \\d'));
+    const labels = '{gateway="' + GATEWAY + '",sauna="0",name="Sauna \\"Garden\\""}';
+    expect(metrics.body).toContain('sentiotec_sauna_current_temperature_celsius' + labels + ' 21.5\n');
+    expect(metrics.body).toContain('sentiotec_sauna_active' + labels + ' 0\n');
+    await expect(request('/health')).resolves.toMatchObject({ status: 200, type: 'application/json' });
+    expect(metrics.body).not.toContain('SN1234');
+  });
+
+  it('reports a gateway that is not working', async () => {
+    await startServer('wrong');
+    await expect(api.getValues()).rejects.toThrow('Authentication unsuccessful');
+    const health = await request('/health');
+    expect(health.status).toBe(503);
+    expect(JSON.parse(health.body)).toMatchObject({
+      status: 'down',
+      gateways: [{ gateway: GATEWAY, healthy: false, lastError: 'Authentication unsuccessful', authFailures: 1 }],
+    });
+    const metrics = await request('/metrics');
+    expect(metrics.body).toContain('sentiotec_gateway_auth_failures_total{gateway="' + GATEWAY + '"} 1\n');
+    expect(metrics.body).toContain('sentiotec_gateway_healthy{gateway="' + GATEWAY + '"} 0\n');
+    expect(metrics.body).not.toContain('sentiotec_sauna_current_temperature_celsius');
+    await expect(request('/unknown')).resolves.toMatchObject({ status: 404 });
+  });
+
+  it('identifies a gateway by the hash of its serial', () => {
+    expect(hashSerial('SN1234')).toBe('8fdbc3d2');
+    expect(hashSerial('SN1234')).not.toBe(hashSerial('SN5678'));
+  });
+});
@@ -0,0 +1,237 @@
+import http from 'http';
+import crypto from 'crypto';
+import { Logger } from 'homebridge';
+import { MetricsConfig } from './settings';
+import { BridgeGateway } from './bridge';
+import { ConnectionState } from './websocket';
+import {
+  SaunaCharacteristic,
+  SaunaCharacteristics,
+} from './characteristics';
+
+/**
+ * the maximum age of the values of a sauna exported as metrics (5 min), older values are left out
+ */
+const MAX_VALUE_AGE = 300000;
+
+/**
+ * all states of a connection (exported as one series per state)
+ */
+const CONNECTION_STATES: ConnectionState[] = ['disconnected', 'connecting', 'authenticating', 'ready', 'closing'];
+
+/**
+ * the values of a sauna exported as metrics (name, help text, characteristic)
+ */
+const SAUNA_METRICS: [string, string, SaunaCharacteristic][] = [
+  ['sentiotec_sauna_connected', 'Whether the sauna is connected to the gateway', SaunaCharacteristics.CONNECTED],
+  ['sentiotec_sauna_active', 'Whether the sauna is switched on', SaunaCharacteristics.ACTIVE],
+  ['sentiotec_sauna_heating', 'Whether the heater relay is closed', SaunaCharacteristics.HEATER_RELAY],
+  ['sentiotec_sauna_current_temperature_celsius', 'The current temperature of the cabin', SaunaCharacteristics.CURRENT_TEMPERATURE],
+  ['sentiotec_sauna_target_temperature_celsius', 'The target temperature of the cabin', SaunaCharacteristics.TARGET_TEMPERATURE],
+  ['sentiotec_sauna_fault_code', 'The fault code reported by the controller (0: no fault)', SaunaCharacteristics.FAULT_CODE],
+];
+
+/**
+ * This interface defines a metric with all its samples
+ */
+interface MetricFamily {
+  /**
+   * the name of the metric
+   */
+  name: string;
+  /**
+   * the help text
+   */
+  help: string;
+  /**
+   * the type of the metric
+   */
+  type: 'gauge' | 'counter';
+  /**
+   * the samples (labels and value)
+   */
+  samples: [{ [label: string]: string }, number][];
+}
+
+/**
+ * This function identifies a gateway without revealing its serial (the first 8 hex digits of the SHA-256 hash of the serial).
+ * @param serial the serial number of the gateway
+ * @returns the identifier of the gateway
+ */
+export function hashSerial(serial: string): string {
+  return crypto.createHash('sha256').update(serial).digest('hex').substring(0, 8);
+}
+
+/**
+ * This function escapes the value of a label.
+ * @param value the value
+ * @returns the escaped value
+ */
+function escapeLabel(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
+
+/**
+ * This function formats metrics in the Prometheus text format.
+ * @param families the metrics
+ * @returns the metrics as text
+ */
+function formatMetrics(families: MetricFamily[]): string {
+  return families
+    .filter((family) => family.samples.length > 0)
+    .map((family) => ['# HELP ' + family.name + ' ' + family.help, '# TYPE ' + family.name + ' ' + family.type]
+      .concat(family.samples.map(([labels, value]) => family.name + '{' +
+        Object.keys(labels).map((label) => label + '="' + escapeLabel(labels[label]) + '"').join(',') + '} ' + value))
+      .join('\n'))
+    .join('\n') + '\n';
+}
+
+/**
+ * This class serves the metrics of the gateways and saunas for Prometheus (GET /metrics)
+ * and the health of the gateways as JSON (GET /health, status 503 if a gateway is not working).
+ * The values of the saunas are the last ones received, so a request never contacts a gateway.
+ */
+export class MetricsServer {
+  /**
+   * the HTTP server
+   */
+  private server?: http.Server;
+
+  /**
+   * the constructor
+   * @param log the logger to be used
+   * @param gateways the gateways to be monitored
+   * @param config the configuration of the endpoints
+   */
+  constructor(private readonly log: Logger, private readonly gateways: BridgeGateway[], private readonly config: MetricsConfig) {
+  }
+
+  /**
+   * This function starts the HTTP server.
+   * @returns a Promise with the port the server listens on
+   */
+  public start(): Promise<number> {
+    return new Promise((resolve, reject) => {
+      const server = http.createServer(this.onRequest.bind(this));
+      this.server = server;
+      server.on('error', reject);
+      const host = this.config.host || '127.0.0.1';
+      server.listen(this.config.port, host, () => {
+        const port = (server.address() as { port: number }).port;
+        this.log.info('Metrics endpoint listening on ' + host + ':' + port);
+        resolve(port);
+      });
+    });
+  }
+
+  /**
+   * This function stops the HTTP server.
+   * @returns a Promise for the execution
+   */
+  public stop(): Promise<void> {
+    return new Promise((resolve) => {
+      if (this.server === undefined) {
+        resolve();
+        return;
+      }
+      this.server.close(() => resolve());
+      this.server = undefined;
+    });
+  }
+
+  /**
+   * This function handles a request and sends the response.
+   * @param request the request
+   * @param response the response
+   */
+  private onRequest(request: http.IncomingMessage, response: http.ServerResponse) {
+    const path = (request.url || '/').split('?')[0];
+    if (request.method !== 'GET') {
+      response.writeHead(405, { 'Content-Type': 'text/plain' });
+      response.end('Method not allowed\n');
+    } else if (path === '/metrics') {
+      response.writeHead(200, { 'Content-Type': 'text/plain; version=0.0.4' });
+      response.end(formatMetrics(this.collectMetrics()));
+    } else if (path === '/health') {
+      const health = this.getHealth();
+      response.writeHead(health.status === 'ok' ? 200 : 503, { 'Content-Type': 'application/json' });
+      response.end(JSON.stringify(health));
+    } else {
+      response.writeHead(404, { 'Content-Type': 'text/plain' });
+      response.end('Not found\n');
+    }
+  }
+
+  /**
+   * This function collects the metrics of all gateways and saunas.
+   * @returns the metrics
+   */
+  private collectMetrics(): MetricFamily[] {
+    const family = (name: string, help: string, type: 'gauge' | 'counter' = 'gauge'): MetricFamily => ({ name, help, type, samples: [] });
+    const state = family('sentiotec_gateway_state', 'The state of the connection to the gateway (1 for the current state)');
+    const healthy = family('sentiotec_gateway_healthy', 'Whether the last update succeeded and no reconnection is pending');
+    const connections = family('sentiotec_gateway_connections_total', 'The number of successful logins', 'counter');
+    const reconnects = family('sentiotec_gateway_reconnects_total', 'The number of reconnection attempts', 'counter');
+    const authFailures = family('sentiotec_gateway_auth_failures_total', 'The number of logins refused by the gateway', 'counter');
+    const refreshes = family('sentiotec_gateway_refreshes_total', 'The number of updates of all values', 'counter');
+    const refreshFailures = family('sentiotec_gateway_refresh_failures_total', 'The number of failed updates of all values', 'counter');
+    const refreshLatency = family('sentiotec_gateway_refresh_latency_seconds', 'The duration of the last successful update of all values');
+    const cacheAge = family('sentiotec_gateway_cache_age_seconds', 'The age of the cached values');
+    const lastSeen = family('sentiotec_gateway_last_seen_seconds', 'The time since the last frame of the gateway');
+    const saunaFamilies = SAUNA_METRICS.map(([name, help]) => family(name, help));
+
+    for (const gateway of this.gateways) {
+      const labels = { gateway: hashSerial(gateway.serial) };
+      const metrics = gateway.api.getMetrics();
+      CONNECTION_STATES.forEach((candidate) => state.samples.push([{ ...labels, state: candidate }, metrics.state === candidate ? 1 : 0]));
+      healthy.samples.push([labels, metrics.healthy ? 1 : 0]);
+      connections.samples.push([labels, metrics.connections]);
+      reconnects.samples.push([labels, metrics.reconnects]);
+      authFailures.samples.push([labels, metrics.authFailures]);
+      refreshes.samples.push([labels, metrics.refreshes]);
+      refreshFailures.samples.push([labels, metrics.refreshFailures]);
+      if (metrics.refreshLatency !== undefined) {
+        refreshLatency.samples.push([labels, metrics.refreshLatency / 1000]);
+      }
+      if (metrics.cacheAge !== undefined) {
+        cacheAge.samples.push([labels, metrics.cacheAge / 1000]);
+      }
+      if (metrics.lastSeen !== undefined) {
+        lastSeen.samples.push([labels, metrics.lastSeen / 1000]);
+      }
+      for (const sauna of gateway.saunas) {
+        SAUNA_METRICS.forEach(([, , characteristic], index) => {
+          const value = gateway.api.getLastKnownValue(sauna.id, characteristic, MAX_VALUE_AGE);
+          if (value !== undefined) {
+            saunaFamilies[index].samples.push([{ ...labels, sauna: String(sauna.id), name: sauna.name }, Number(value)]);
+          }
+        });
+      }
+    }
+    return [state, healthy, connections, reconnects, authFailures, refreshes, refreshFailures, refreshLatency, cacheAge, lastSeen]
+      .concat(saunaFamilies);
+  }
+
+  /**
+   * This function returns the health of all gateways.
+   * @returns the overall status (ok, degraded if some gateways are not working, down if none is working) and the gateways
+   */
+  private getHealth(): { status: 'ok' | 'degraded' | 'down'; gateways: unknown[] } {
+    const gateways = this.gateways.map((gateway) => {
+      const metrics = gateway.api.getMetrics();
+      return {
+        gateway: hashSerial(gateway.serial),
+        healthy: metrics.healthy,
+        state: metrics.state,
+        lastError: metrics.lastError,
+        lastSeen: metrics.lastSeen !== undefined ? Math.round(metrics.lastSeen / 1000) : undefined,
+        cacheAge: metrics.cacheAge !== undefined ? Math.round(metrics.cacheAge / 1000) : undefined,
+        reconnects: metrics.reconnects,
+        authFailures: metrics.authFailures,
+      };
+    });
+    const working = gateways.filter((gateway) => gateway.healthy).length;
+    const status = working === gateways.length ? 'ok' : working > 0 ? 'degraded' : 'down';
+    return { status, gateways };
+  }
+}
@@ -0,0 +1,287 @@
+import WebSocket from 'ws';
+import { EventEmitter } from 'events';
+import { AddressInfo } from 'net';
+import { Md5 } from 'ts-md5/dist/md5';
+
+/**
+ * the number of addresses per sauna sent with an update of all characteristics
+ */
+const ADDRESSES_PER_SAUNA = 48;
+/**
+ * the number of saunas of a Pronet gateway
+ */
+const SAUNAS = 2;
+
+/**
+ * This interface defines the options of the mock gateway
+ */
+export interface MockGatewayOptions {
+  /**
+   * the serial number (the path of the websocket URL)
+   */
+  serial: string;
+  /**
+   * the password of the user
+   */
+  password: string;
+  /**
+   * the user name (default root)
+   */
+  user?: string;
+  /**
+   * the port to listen on (default: a random free port)
+   */
+  port?: number;
+}
+
+/**
+ * This interface defines the faults that can be injected into the mock gateway
+ */
+export interface MockGatewayFaults {
+  /**
+   * rejects every authentication
+   */
+  rejectAuth?: boolean;
+  /**
+   * never answers an authentication request (timeout)
+   */
+  ignoreAuth?: boolean;
+  /**
+   * never answers a request of all characteristics (timeout)
+   */
+  ignoreUpdateAll?: boolean;
+  /**
+   * stops the update of all characteristics after the given number of values (the end marker is never sent)
+   */
+  partialUpdate?: number;
+  /**
+   * drops the connection right after a successful authentication
+   */
+  dropAfterAuth?: boolean;
+  /**
+   * does not echo written values
+   */
+  ignoreWrites?: boolean;
+  /**
+   * rejects written values (the unchanged value is echoed)
+   */
+  rejectWrites?: boolean;
+  /**
+   * clamps written values to the given maximum
+   */
+  clampWrites?: number;
+}
+
+/**
+ * This interface defines a value written by a client
+ */
+export interface MockGatewayWrite {
+  /**
+   * the KNX address
+   */
+  addr: string;
+  /**
+   * the written value
+   */
+  value: number | string;
+}
+
+/**
+ * This class is a scriptable in-process Pronet gateway for tests and development.
+ * It implements the handshake, the update of all characteristics and writes and allows injecting faults.
+ */
+export class MockPronetGateway extends EventEmitter {
+  /**
+   * the values by KNX address
+   */
+  public readonly values: Map<string, string> = new Map();
+  /**
+   * the values written by clients
+   */
+  public readonly writes: MockGatewayWrite[] = [];
+  /**
+   * the faults to be injected (can be changed at any time)
+   */
+  public faults: MockGatewayFaults = {};
+  /**
+   * the number of accepted websocket connections
+   */
+  public connectionCount = 0;
+  /**
+   * the websocket server
+   */
+  private server?: WebSocket.Server;
+  /**
+   * the authenticated clients
+   */
+  private readonly clients: Set<WebSocket> = new Set();
+
+  /**
+   * the constructor
+   * @param options the options of the gateway
+   */
+  constructor(private readonly options: MockGatewayOptions) {
+    super();
+    for (let sauna = 0; sauna < SAUNAS; sauna++) {
+      for (let id = 0; id < ADDRESSES_PER_SAUNA; id++) {
+        this.values.set('183/' + sauna + '/' + id, '0');
+      }
+    }
+    // a connected sauna with a typical configuration
+    this.setValue(0, 0, '1');
+    this.setValue(0, 2, '90');
+    this.setValue(0, 3, '40');
+    this.setValue(0, 4, '240');
+    this.setValue(0, 11, '21.5');
+    this.setValue(0, 12, '30');
+    this.setValue(0, 21, '2.1.0');
+    this.setValue(0, 22, 'Pronet');
+  }
+
+  /**
+   * This function starts the websocket server.
+   * @returns a Promise with the port the server listens on
+   */
+  public start(): Promise<number> {
+    return new Promise((resolve, reject) => {
+      this.server = new WebSocket.Server({ port: this.options.port || 0, host: '127.0.0.1' });
+      this.server.on('listening', () => resolve((this.server!.address() as AddressInfo).port));
+      this.server.on('error', reject);
+      this.server.on('connection', this.onConnection.bind(this));
+    });
+  }
+
+  /**
+   * This function stops the websocket server and drops all connections.
+   * @returns a Promise for the execution
+   */
+  public stop(): Promise<void> {
+    return new Promise((resolve) => {
+      this.dropConnections();
+      if (this.server === undefined) {
+        resolve();
+        return;
+      }
+      this.server.close(() => resolve());
+      this.server = undefined;
+    });
+  }
+
+  /**
+   * This function drops all open connections (without a close handshake).
+   */
+  public dropConnections() {
+    if (this.server !== undefined) {
+      this.server.clients.forEach((client) => client.terminate());
+    }
+    this.clients.clear();
+  }
+
+  /**
+   * This function sets a value and pushes it to all authenticated clients.
+   * @param sauna the ID of the sauna
+   * @param id the ID of the characteristic
+   * @param value the raw value
+   */
+  public setValue(sauna: number, id: number, value: string) {
+    const addr = '183/' + sauna + '/' + id;
+    this.values.set(addr, value);
+    this.clients.forEach((client) => this.send(client, { cmd: 'cmd_knx_write', addr, value }));
+  }
+
+  /**
+   * This function handles a new websocket connection.
+   * @param websocket the websocket
+   * @param request the HTTP upgrade request
+   */
+  private onConnection(websocket: WebSocket, request: { url?: string }) {
+    this.connectionCount++;
+    if (request.url !== '/' + this.options.serial) {
+      websocket.close();
+      return;
+    }
+    websocket.on('message', (data) => {
+      let message;
+      try {
+        message = JSON.parse(data.toString());
+      } catch (error) {
+        return;
+      }
+      this.emit('message', message);
+      this.onMessage(websocket, message);
+    });
+    websocket.on('close', () => this.clients.delete(websocket));
+    this.send(websocket, { cmd: 'cmd_on_accept' });
+  }
+
+  /**
+   * This function handles a message of a client.
+   * @param websocket the websocket of the client
+   * @param message the parsed message
+   */
+  private onMessage(websocket: WebSocket, message) {
+    switch (message.cmd) {
+      case 'cmd_request_auth': {
+        if (this.faults.ignoreAuth) {
+          return;
+        }
+        const passwd = Md5.hashStr(this.options.password, false) as string;
+        const valid = !this.faults.rejectAuth && message.sn === this.options.serial &&
+          message.user === (this.options.user || 'root') && message.passwd === passwd;
+        this.send(websocket, { cmd: 'cmd_auth_response', value: valid ? 'true' : 'false' });
+        if (!valid) {
+          return;
+        }
+        if (this.faults.dropAfterAuth) {
+          websocket.terminate();
+          return;
+        }
+        this.clients.add(websocket);
+        break;
+      }
+      case 'cmd_request_update_all': {
+        if (!this.clients.has(websocket) || this.faults.ignoreUpdateAll) {
+          return;
+        }
+        let count = 0;
+        for (const [addr, value] of this.values) {
+          if (this.faults.partialUpdate !== undefined && count >= this.faults.partialUpdate) {
+            break;
+          }
+          this.send(websocket, { cmd: 'cmd_knx_write', addr, value });
+          count++;
+        }
+        break;
+      }
+      case 'cmd_knx_write': {
+        if (!this.clients.has(websocket)) {
+          return;
+        }
+        this.writes.push({ addr: message.addr, value: message.value });
+        if (this.faults.ignoreWrites) {
+          return;
+        }
+        const parts = String(message.addr).split('/');
+        let value = String(message.value);
+        if (this.faults.rejectWrites) {
+          value = this.values.get(message.addr) || '0';
+        } else if (this.faults.clampWrites !== undefined && Number(value) > this.faults.clampWrites) {
+          value = String(this.faults.clampWrites);
+        }
+        this.setValue(parseInt(parts[1]), parseInt(parts[2]), value);
+        break;
+      }
+    }
+  }
+
+  /**
+   * This function sends a message to a client.
+   * @param websocket the websocket of the client
+   * @param message the message
+   */
+  private send(websocket: WebSocket, message: { [key: string]: string }) {
+    if (websocket.readyState === WebSocket.OPEN) {
+      websocket.send(JSON.stringify(message));
+    }
+  }
+}
@@ -0,0 +1,81 @@
+import { EventEmitter } from 'events';
+import { MqttClient } from 'mqtt';
+import { MqttBridge } from './mqttBridge';
+import { SentiotecAPI } from './websocket';
+import { SafetyPolicy } from './safety';
+import { SaunaCharacteristics } from './characteristics';
+import { MockPronetGateway } from './mockGateway';
+import {
+  createLogger,
+  waitFor,
+} from './testUtils';
+
+describe('MqttBridge', () => {
+  let gateway: MockPronetGateway;
+  let api: SentiotecAPI;
+  let client: EventEmitter & { connected: boolean; publish: jest.Mock; subscribe: jest.Mock; end: jest.Mock };
+  let bridge: MqttBridge;
+
+  /**
+   * This function returns the last payload published on a topic.
+   * @param topic the topic
+   * @returns the payload or undefined, if nothing has been published
+   */
+  function published(topic: string): string | undefined {
+    const calls = client.publish.mock.calls.filter((call) => call[0] === topic);
+    return calls.length > 0 ? calls[calls.length - 1][1] : undefined;
+  }
+
+  beforeEach(async () => {
+    gateway = new MockPronetGateway({ serial: 'SN1234', password: 'sentiotec' });
+    const port = await gateway.start();
+    const sauna = { id: 0, name: 'Sauna', trustedControllers: ['192.168.1.30'] };
+    api = new SentiotecAPI(createLogger(), {
+      ip: '127.0.0.1',
+      port,
+      serial: 'SN1234',
+      password: 'sentiotec',
+      persistent: true,
+      saunas: [sauna],
+    });
+    const policies = new Map([[0, new SafetyPolicy(createLogger(), api, sauna)]]);
+    client = Object.assign(new EventEmitter(), { connected: true, publish: jest.fn(), subscribe: jest.fn(), end: jest.fn() });
+    bridge = new MqttBridge(createLogger(),
+      [{ serial: 'SN1234', api, saunas: [sauna], policies, minutesToReady: new Map(), targetTemperatureLimits: new Map() }],
+      { url: 'mqtt://broker' }, () => client as unknown as MqttClient);
+    bridge.start();
+    api.start();
+    client.emit('connect');
+  });
+
+  afterEach(async () => {
+    bridge.stop();
+    api.stop();
+    await gateway.stop();
+  });
+
+  it('publishes the values as retained messages', async () => {
+    expect(client.publish).toHaveBeenCalledWith('sentiotec/status', 'online', { retain: true, qos: 1 });
+    expect(client.subscribe).toHaveBeenCalledWith('sentiotec/+/+/+/set');
+    await waitFor(() => published('sentiotec/SN1234/0/target_temperature') === '90');
+    gateway.setValue(0, SaunaCharacteristics.CURRENT_TEMPERATURE.id, '64');
+    await waitFor(() => published('sentiotec/SN1234/0/current_temperature') === '64');
+    expect(client.publish).toHaveBeenCalledWith('sentiotec/SN1234/0/current_temperature', '64', { retain: true });
+  });
+
+  it('writes the values of set commands', async () => {
+    await waitFor(() => published('sentiotec/SN1234/0/target_temperature') === '90');
+    client.emit('message', 'sentiotec/SN1234/0/target_temperature/set', Buffer.from('80'));
+    client.emit('message', 'sentiotec/SN1234/0/current_temperature/set', Buffer.from('20'));
+    await waitFor(() => published('sentiotec/SN1234/0/target_temperature') === '80');
+    expect(gateway.writes).toEqual([{ addr: '183/0/2', value: 80 }]);
+  });
+
+  it('checks a start via MQTT with the safety policy', async () => {
+    await waitFor(() => published('sentiotec/SN1234/0/active') === 'false');
+    client.emit('message', 'sentiotec/SN1234/0/active/set', Buffer.from('on'));
+    await new Promise((resolve) => setTimeout(resolve, 200));
+    expect(gateway.writes).toEqual([]);
+    expect(published('sentiotec/SN1234/0/active')).toBe('false');
+  });
+});
@@ -0,0 +1,147 @@
+import {
+  IClientOptions,
+  MqttClient,
+  connect,
+} from 'mqtt';
+import { Logger } from 'homebridge';
+import { MqttConfig } from './settings';
+import {
+  BridgeGateway,
+  checkWrite,
+  limitWrite,
+  readValues,
+} from './bridge';
+import { MQTT_ORIGIN } from './safety';
+import {
+  SaunaCharacteristic,
+  SaunaValue,
+  findCharacteristicByName,
+  getCharacteristicKey,
+  parseCharacteristicValue,
+} from './characteristics';
+
+/**
+ * the default prefix of all topics
+ */
+const DEFAULT_TOPIC = 'sentiotec';
+
+/**
+ * This class is the MQTT bridge. It publishes every value of the configured saunas as retained message
+ * (<prefix>/<serial>/<sauna>/<characteristic>) and writes the values received on the corresponding /set topics.
+ * The availability of the bridge is published as online/offline on <prefix>/status.
+ */
+export class MqttBridge {
+  /**
+   * the prefix of all topics
+   */
+  private readonly topic: string;
+  /**
+   * the client connected to the broker
+   */
+  private client?: MqttClient;
+
+  /**
+   * the constructor
+   * @param log the logger to be used
+   * @param gateways the gateways to be bridged
+   * @param config the configuration of the bridge
+   * @param connectClient the function connecting to the broker (replaceable for tests)
+   */
+  constructor(private readonly log: Logger, private readonly gateways: BridgeGateway[], private readonly config: MqttConfig,
+    private readonly connectClient: (url: string, options: IClientOptions) => MqttClient = connect) {
+    this.topic = (config.topic || DEFAULT_TOPIC).replace(/\/+$/, '');
+  }
+
+  /**
+   * This function connects to the broker and starts publishing the values.
+   */
+  public start() {
+    this.log.info('Connecting the MQTT bridge to ' + this.config.url);
+    const client = this.connectClient(this.config.url, {
+      username: this.config.username,
+      password: this.config.password,
+      will: { topic: this.topic + '/status', payload: 'offline', retain: true, qos: 1 },
+    });
+    this.client = client;
+    client.on('connect', () => {
+      this.log.info('MQTT bridge connected');
+      client.publish(this.topic + '/status', 'online', { retain: true, qos: 1 });
+      client.subscribe(this.topic + '/+/+/+/set');
+      // publish the values known so far, later changes are published as they arrive
+      this.gateways.forEach((gateway) => gateway.saunas.forEach((sauna) => readValues(gateway, sauna.id)
+        .then((values) => Object.keys(values).forEach((key) => this.publish(gateway, sauna.id, key, values[key])))
+        .catch((error) => this.log.debug('Publishing the values of "' + sauna.name + '" failed: ' + error.message))));
+    });
+    client.on('message', this.onMessage.bind(this));
+    client.on('error', (error) => this.log.error('MQTT bridge error: ' + error.message));
+    this.gateways.forEach((gateway) => gateway.api.on('update', (saunaID: number, characteristic: SaunaCharacteristic,
+      value: SaunaValue) => {
+      if (gateway.saunas.some((sauna) => sauna.id === saunaID)) {
+        this.publish(gateway, saunaID, getCharacteristicKey(characteristic), value);
+      }
+    }));
+  }
+
+  /**
+   * This function disconnects from the broker (the last will marks the bridge as offline).
+   */
+  public stop() {
+    if (this.client !== undefined) {
+      this.client.publish(this.topic + '/status', 'offline', { retain: true, qos: 1 });
+      this.client.end();
+      this.client = undefined;
+    }
+  }
+
+  /**
+   * This function publishes a value as retained message.
+   * @param gateway the gateway
+   * @param saunaID the ID of the sauna
+   * @param key the name of the characteristic
+   * @param value the typed value
+   */
+  private publish(gateway: BridgeGateway, saunaID: number, key: string, value: SaunaValue) {
+    if (this.client === undefined || !this.client.connected) {
+      return;
+    }
+    this.client.publish(this.topic + '/' + gateway.serial + '/' + saunaID + '/' + key, String(value), { retain: true });
+  }
+
+  /**
+   * This function handles a message on a /set topic.
+   * @param topic the topic
+   * @param payload the value as text
+   */
+  private onMessage(topic: string, payload: Buffer) {
+    const parts = topic.substring(this.topic.length + 1).split('/');
+    if (!topic.startsWith(this.topic + '/') || parts.length !== 4 || parts[3] !== 'set') {
+      return;
+    }
+    const [serial, sauna, key] = parts;
+    const gateway = this.gateways.find((candidate) => candidate.serial === serial);
+    const characteristic = findCharacteristicByName(key);
+    const saunaID = parseInt(sauna);
+    if (gateway === undefined || characteristic === undefined || isNaN(saunaID)) {
+      this.log.warn('Ignoring MQTT message for unknown topic ' + topic);
+      return;
+    }
+    let value: SaunaValue;
+    try {
+      value = limitWrite(gateway, saunaID, characteristic, parseCharacteristicValue(characteristic, payload.toString().trim()));
+    } catch (error) {
+      this.log.warn('Ignoring MQTT message: ' + error.message);
+      return;
+    }
+    checkWrite(gateway, saunaID, characteristic, value, MQTT_ORIGIN)
+      .then((refusal) => {
+        if (refusal !== undefined) {
+          this.log.warn('Refused MQTT write of "' + characteristic.name + '": ' + refusal);
+          return;
+        }
+        this.log.info('Setting "' + characteristic.name + '" of sauna ' + saunaID + ' to ' + value + ' via MQTT');
+        return gateway.api.setCharacterstic(saunaID, characteristic, value)
+          .then((confirmed) => this.publish(gateway, saunaID, getCharacteristicKey(characteristic), confirmed));
+      })
+      .catch((error) => this.log.error('MQTT write of "' + characteristic.name + '" failed: ' + error.message));
+  }
+}
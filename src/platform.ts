@@ -0,0 +1,268 @@
+import {
+  API,
+  DynamicPlatformPlugin,
+  Logger,
+  PlatformAccessory,
+  PlatformConfig,
+  Service,
+  Characteristic,
+} from 'homebridge';
+import {
+  GatewayConfig,
+  MetricsConfig,
+  MqttConfig,
+  PLATFORM_NAME,
+  PLUGIN_NAME,
+  RestConfig,
+  SaunaConfig,
+} from './settings';
+import path from 'path';
+import {
+  SentiotecAPI,
+  SocketFactory,
+  getPasswordHash,
+} from './websocket';
+import { RedactingLogger } from './redaction';
+import {
+  DEFAULT_MAX_FILES,
+  DEFAULT_MAX_SIZE,
+  FrameRecorder,
+  FrameReplay,
+  readCapture,
+} from './frames';
+import { BridgeGateway } from './bridge';
+import { MqttBridge } from './mqttBridge';
+import { RestServer } from './restServer';
+import { MetricsServer } from './metricsServer';
+import { SentiotecSaunaAccessory } from './accessory';
+import {
+  EveCharacteristics,
+  createEveCharacteristics,
+} from './eve';
+import fakegato from 'fakegato-history';
+
+/**
+ * This class is the platform, which creates one accessory per configured sauna.
+ * All saunas of a Pronet gateway share one connection to the gateway.
+ */
+export class SentiotecPlatform implements DynamicPlatformPlugin {
+  /**
+   * the HAP service types
+   */
+  public readonly Service: typeof Service;
+  /**
+   * the HAP characteristic types
+   */
+  public readonly Characteristic: typeof Characteristic;
+  /**
+   * the custom characteristic types of the Eve app
+   */
+  public readonly EveCharacteristic: EveCharacteristics;
+  /**
+   * the Eve history service type (fakegato-history)
+   */
+  public readonly FakeGatoHistoryService;
+  /**
+   * the accessories restored from the cache
+   */
+  private readonly accessories: PlatformAccessory[] = [];
+  /**
+   * the gateway APIs (one per Pronet)
+   */
+  private readonly gateways: SentiotecAPI[] = [];
+  /**
+   * the saunas (one per accessory)
+   */
+  private readonly saunas: SentiotecSaunaAccessory[] = [];
+  /**
+   * the gateways shared with the MQTT bridge and the REST API
+   */
+  private readonly bridgeGateways: BridgeGateway[] = [];
+  /**
+   * the logger removing the serials and credentials (also used for the recorded frames)
+   */
+  private readonly redactingLogger: RedactingLogger;
+  /**
+   * the MQTT bridge (if configured)
+   */
+  private mqttBridge?: MqttBridge;
+  /**
+   * the REST API (if configured)
+   */
+  private restServer?: RestServer;
+  /**
+   * the metrics and health endpoints (if configured)
+   */
+  private metricsServer?: MetricsServer;
+
+  /**
+   * the constructor from the Homebridge API (the serials and credentials of the gateways are removed from all log output)
+   */
+  constructor(
+    public readonly log: Logger,
+    public readonly config: PlatformConfig,
+    public readonly api: API,
+  ) {
+    const redactingLogger = new RedactingLogger(log);
+    for (const gatewayConfig of (config.gateways || []) as GatewayConfig[]) {
+      redactingLogger.addSerial(gatewayConfig.serial);
+      redactingLogger.addSecret(gatewayConfig.password);
+      redactingLogger.addSecret(gatewayConfig.passwordHash);
+      redactingLogger.addSecret(getPasswordHash(gatewayConfig));
+    }
+    if (config.mqtt) {
+      redactingLogger.addSecret(config.mqtt.password);
+    }
+    if (config.rest) {
+      redactingLogger.addSecret(config.rest.token);
+    }
+    this.log = redactingLogger;
+    this.redactingLogger = redactingLogger;
+    this.Service = api.hap.Service;
+    this.Characteristic = api.hap.Characteristic;
+    this.EveCharacteristic = createEveCharacteristics(api.hap);
+    this.FakeGatoHistoryService = fakegato(api);
+
+    this.api.on('didFinishLaunching', () => {
+      this.setupAccessories();
+      this.gateways.forEach((gateway) => gateway.start());
+      this.setupBridges();
+    });
+    this.api.on('shutdown', () => {
+      if (this.mqttBridge !== undefined) {
+        this.mqttBridge.stop();
+      }
+      if (this.restServer !== undefined) {
+        this.restServer.stop();
+      }
+      if (this.metricsServer !== undefined) {
+        this.metricsServer.stop();
+      }
+      this.saunas.forEach((sauna) => sauna.stop());
+      this.gateways.forEach((gateway) => gateway.stop());
+    });
+  }
+
+  /**
+   * This function is invoked when homebridge restores cached accessories from disk at startup.
+   * @param accessory the cached accessory
+   */
+  configureAccessory(accessory: PlatformAccessory) {
+    this.log.debug('Loading accessory from cache: ' + accessory.displayName);
+    this.accessories.push(accessory);
+  }
+
+  /**
+   * This function creates (or restores) the accessories for all configured saunas and removes the ones no longer configured.
+   */
+  private setupAccessories() {
+    const gatewayConfigs: GatewayConfig[] = this.config.gateways || [];
+    const activeUUIDs: string[] = [];
+
+    for (const gatewayConfig of gatewayConfigs) {
+      if (!gatewayConfig.ip || !gatewayConfig.serial) {
+        this.log.error('Gateway configuration without IP or serial, ignoring it');
+        continue;
+      }
+      if (getPasswordHash(gatewayConfig) === undefined && !gatewayConfig.replay) {
+        this.log.error('Gateway configuration without password or password hash, ignoring it');
+        continue;
+      }
+      let sentioAPI: SentiotecAPI;
+      try {
+        sentioAPI = this.createGatewayAPI(gatewayConfig);
+      } catch (error) {
+        this.log.error('Reading the capture ' + gatewayConfig.replay + ' failed, ignoring the gateway: ' + error.message);
+        continue;
+      }
+      this.gateways.push(sentioAPI);
+      const saunaConfigs: SaunaConfig[] = gatewayConfig.saunas || [];
+      const bridgeGateway: BridgeGateway = {
+        serial: gatewayConfig.serial,
+        api: sentioAPI,
+        saunas: saunaConfigs,
+        policies: new Map(),
+        minutesToReady: new Map(),
+        targetTemperatureLimits: new Map(),
+      };
+      this.bridgeGateways.push(bridgeGateway);
+      for (const saunaConfig of saunaConfigs) {
+        const uuid = this.api.hap.uuid.generate(gatewayConfig.serial + '/' + saunaConfig.id);
+        activeUUIDs.push(uuid);
+        let accessory = this.accessories.find((cached) => cached.UUID === uuid);
+        if (accessory !== undefined) {
+          this.log.info('Restoring existing sauna from cache: ' + accessory.displayName);
+          accessory.context.gateway = gatewayConfig.serial;
+          accessory.context.sauna = saunaConfig;
+          this.api.updatePlatformAccessories([accessory]);
+        } else {
+          this.log.info('Adding new sauna: ' + saunaConfig.name);
+          accessory = new this.api.platformAccessory(saunaConfig.name, uuid);
+          accessory.context.gateway = gatewayConfig.serial;
+          accessory.context.sauna = saunaConfig;
+          this.api.registerPlatformAccessories(PLUGIN_NAME, PLATFORM_NAME, [accessory]);
+        }
+        const sauna = new SentiotecSaunaAccessory(this, accessory, sentioAPI, gatewayConfig, saunaConfig);
+        bridgeGateway.policies.set(saunaConfig.id, sauna.safetyPolicy);
+        bridgeGateway.minutesToReady.set(saunaConfig.id, sauna.getMinutesToReady.bind(sauna));
+        bridgeGateway.targetTemperatureLimits.set(saunaConfig.id, sauna.limitTargetTemperature.bind(sauna));
+        this.saunas.push(sauna);
+      }
+    }
+
+    // remove the saunas that are not configured anymore
+    const staleAccessories = this.accessories.filter((cached) => !activeUUIDs.includes(cached.UUID));
+    if (staleAccessories.length > 0) {
+      staleAccessories.forEach((cached) => this.log.info('Removing sauna from cache: ' + cached.displayName));
+      this.api.unregisterPlatformAccessories(PLUGIN_NAME, PLATFORM_NAME, staleAccessories);
+    }
+  }
+
+  /**
+   * This function creates the API of a gateway, which replays a capture instead of connecting, if configured.
+   * If the recording is enabled, all frames are recorded (without serials and credentials).
+   * @param gatewayConfig the gateway configuration
+   * @returns the API of the gateway
+   */
+  private createGatewayAPI(gatewayConfig: GatewayConfig): SentiotecAPI {
+    let createSocket: SocketFactory | undefined;
+    if (gatewayConfig.replay) {
+      const frames = readCapture(gatewayConfig.replay);
+      this.log.warn('Replaying ' + frames.length + ' frames of ' + gatewayConfig.replay + ' instead of connecting to the Pronet gateway');
+      createSocket = new FrameReplay(this.log, frames).createSocket;
+    }
+    const sentioAPI = new SentiotecAPI(this.log, gatewayConfig, createSocket);
+    const recording = gatewayConfig.recording;
+    if (recording !== undefined && recording.enabled) {
+      const file = recording.file || path.join(this.api.user.storagePath(), 'sentiotec-frames-' + gatewayConfig.ip + '.jsonl');
+      const maxSize = recording.maxSize ? recording.maxSize * 1024 : DEFAULT_MAX_SIZE;
+      const maxFiles = recording.maxFiles !== undefined ? recording.maxFiles : DEFAULT_MAX_FILES;
+      new FrameRecorder(this.log, file, (text) => this.redactingLogger.redact(text), maxSize, maxFiles).attach(sentioAPI);
+    }
+    return sentioAPI;
+  }
+
+  /**
+   * This function starts the MQTT bridge, the REST API and the metrics endpoint, if configured.
+   * All of them share the connections of the gateways with HomeKit.
+   */
+  private setupBridges() {
+    const mqttConfig: MqttConfig | undefined = this.config.mqtt;
+    if (mqttConfig !== undefined && mqttConfig.url) {
+      this.mqttBridge = new MqttBridge(this.log, this.bridgeGateways, mqttConfig);
+      this.mqttBridge.start();
+    }
+    const restConfig: RestConfig | undefined = this.config.rest;
+    if (restConfig !== undefined && restConfig.port) {
+      this.restServer = new RestServer(this.log, this.bridgeGateways, restConfig);
+      this.restServer.start()
+        .catch((error) => this.log.error('Starting the REST API failed: ' + error.message));
+    }
+    const metricsConfig: MetricsConfig | undefined = this.config.metrics;
+    if (metricsConfig !== undefined && metricsConfig.port) {
+      this.metricsServer = new MetricsServer(this.log, this.bridgeGateways, metricsConfig);
+      this.metricsServer.start()
+        .catch((error) => this.log.error('Starting the metrics endpoint failed: ' + error.message));
+    }
+  }
+}
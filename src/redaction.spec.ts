@@ -0,0 +1,15 @@
+import { RedactingLogger } from './redaction';
+import { createLogger } from './testUtils';
+
+describe('RedactingLogger', () => {
+  it('masks serials and removes credentials from messages and parameters', () => {
+    const log = createLogger();
+    const redactingLogger = new RedactingLogger(log);
+    redactingLogger.addSerial('SN1234');
+    redactingLogger.addSecret('sentiotec');
+    redactingLogger.info('Connecting to ws://192.168.1.2:17001/SN1234', 'password sentiotec');
+    expect(log.info).toHaveBeenCalledWith('Connecting to ws://192.168.1.2:17001/SN****', 'password ********');
+    redactingLogger.error('Error without secrets', 42);
+    expect(log.error).toHaveBeenCalledWith('Error without secrets', 42);
+  });
+});
@@ -0,0 +1,139 @@
+import {
+  LogLevel,
+  Logger,
+} from 'homebridge';
+
+/**
+ * the replacement of a redacted credential
+ */
+const REDACTED = '********';
+
+/**
+ * This function masks a serial number, so that gateways can still be told apart in the log.
+ * @param serial the serial number
+ * @returns the masked serial number (only the first two characters are kept)
+ */
+export function maskSerial(serial: string): string {
+  return serial.substring(0, 2) + '*'.repeat(Math.max(serial.length - 2, 2));
+}
+
+/**
+ * This class is a logger that removes serial numbers and credentials from all messages before passing them to another logger.
+ */
+export class RedactingLogger implements Logger {
+  /**
+   * the replacements (text to be redacted, replacement), longest text first
+   */
+  private readonly replacements: [string, string][] = [];
+
+  /**
+   * the constructor
+   * @param target the logger the redacted messages are passed to
+   */
+  constructor(private readonly target: Logger) {
+  }
+
+  /**
+   * the prefix of the wrapped logger
+   */
+  get prefix(): string | undefined {
+    return this.target.prefix;
+  }
+
+  /**
+   * This function adds a serial number to be masked.
+   * @param serial the serial number
+   */
+  public addSerial(serial?: string) {
+    if (serial) {
+      this.add(serial, maskSerial(serial));
+    }
+  }
+
+  /**
+   * This function adds a credential (e.g. a password or its hash) to be redacted.
+   * @param secret the credential
+   */
+  public addSecret(secret?: string) {
+    if (secret) {
+      this.add(secret, REDACTED);
+    }
+  }
+
+  /**
+   * This function redacts a text.
+   * @param text the text
+   * @returns the text without serial numbers and credentials
+   */
+  public redact(text: string): string {
+    return this.replacements.reduce((redacted, [secret, replacement]) => redacted.split(secret).join(replacement), text);
+  }
+
+  /**
+   * This function logs an info message.
+   * @param message the message
+   * @param parameters the parameters of the message
+   */
+  info(message: string, ...parameters) {
+    this.target.info(this.redact(message), ...this.redactParameters(parameters));
+  }
+
+  /**
+   * This function logs a warning.
+   * @param message the message
+   * @param parameters the parameters of the message
+   */
+  warn(message: string, ...parameters) {
+    this.target.warn(this.redact(message), ...this.redactParameters(parameters));
+  }
+
+  /**
+   * This function logs an error.
+   * @param message the message
+   * @param parameters the parameters of the message
+   */
+  error(message: string, ...parameters) {
+    this.target.error(this.redact(message), ...this.redactParameters(parameters));
+  }
+
+  /**
+   * This function logs a debug message.
+   * @param message the message
+   * @param parameters the parameters of the message
+   */
+  debug(message: string, ...parameters) {
+    this.target.debug(this.redact(message), ...this.redactParameters(parameters));
+  }
+
+  /**
+   * This function logs a message with the given level.
+   * @param level the log level
+   * @param message the message
+   * @param parameters the parameters of the message
+   */
+  log(level: LogLevel, message: string, ...parameters) {
+    this.target.log(level, this.redact(message), ...this.redactParameters(parameters));
+  }
+
+  /**
+   * This function adds a replacement (longer texts are replaced first, so a serial inside a credential does not leak parts of it).
+   * @param secret the text to be redacted
+   * @param replacement the replacement
+   */
+  private add(secret: string, replacement: string) {
+    if (this.replacements.some(([existing]) => existing === secret)) {
+      return;
+    }
+    this.replacements.push([secret, replacement]);
+    this.replacements.sort((a, b) => b[0].length - a[0].length);
+  }
+
+  /**
+   * This function redacts the string parameters of a message.
+   * @param parameters the parameters
+   * @returns the redacted parameters
+   */
+  private redactParameters(parameters: unknown[]): unknown[] {
+    return parameters.map((parameter) => typeof parameter === 'string' ? this.redact(parameter) : parameter);
+  }
+}
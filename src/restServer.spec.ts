@@ -0,0 +1,90 @@
+import http from 'http';
+import { RestServer } from './restServer';
+import { SentiotecAPI } from './websocket';
+import { SafetyPolicy } from './safety';
+import { SaunaCharacteristics } from './characteristics';
+import { MockPronetGateway } from './mockGateway';
+import { createLogger } from './testUtils';
+
+describe('RestServer', () => {
+  let gateway: MockPronetGateway;
+  let api: SentiotecAPI;
+  let server: RestServer;
+  let port: number;
+
+  /**
+   * This function sends a request to the REST API.
+   * @param method the HTTP method
+   * @param path the path
+   * @param body the body (sent as JSON)
+   * @param token the bearer token
+   * @returns a Promise with the status and the parsed body
+   */
+  function request(method: string, path: string, body?: unknown, token = 'secret'): Promise<{ status: number; body }> {
+    return new Promise((resolve, reject) => {
+      const req = http.request({ host: '127.0.0.1', port, method, path, headers: { Authorization: 'Bearer ' + token } }, (res) => {
+        let data = '';
+        res.on('data', (chunk) => data += chunk);
+        res.on('end', () => resolve({ status: res.statusCode!, body: JSON.parse(data) }));
+      });
+      req.on('error', reject);
+      req.end(body !== undefined ? JSON.stringify(body) : undefined);
+    });
+  }
+
+  beforeEach(async () => {
+    gateway = new MockPronetGateway({ serial: 'SN1234', password: 'sentiotec' });
+    const gatewayPort = await gateway.start();
+    const sauna = { id: 0, name: 'Sauna', doorCheck: true, maxRuntime: 360 };
+    const gatewayConfig = { ip: '127.0.0.1', port: gatewayPort, serial: 'SN1234', password: 'sentiotec', saunas: [sauna],
+      unverifiedAddresses: true };
+    api = new SentiotecAPI(createLogger(), gatewayConfig);
+    const policies = new Map([[0, new SafetyPolicy(createLogger(), api, sauna)]]);
+    const minutesToReady = new Map([[0, () => 25]]);
+    const targetTemperatureLimits = new Map([[0, (value: number) => Math.min(100, Math.max(40, Math.round(value / 5) * 5))]]);
+    server = new RestServer(createLogger(),
+      [{ serial: 'SN1234', api, saunas: [sauna], policies, minutesToReady, targetTemperatureLimits }],
+      { port: 0, host: '127.0.0.1', token: 'secret' });
+    port = await server.start();
+  });
+
+  afterEach(async () => {
+    await server.stop();
+    api.stop();
+    await gateway.stop();
+  });
+
+  it('needs the token', async () => {
+    await expect(request('GET', '/api', undefined, 'wrong')).resolves.toEqual({ status: 401, body: { error: 'Unauthorized' } });
+    await expect(request('GET', '/api'))
+      .resolves.toEqual({ status: 200, body: [{ serial: 'SN1234', saunas: [{ id: 0, name: 'Sauna' }] }] });
+  });
+
+  it('reads the values of a sauna', async () => {
+    const values = await request('GET', '/api/SN1234/0');
+    expect(values.status).toBe(200);
+    expect(values.body).toMatchObject({ target_temperature: 90, current_temperature: 21.5, active: false, minutes_to_ready: 25 });
+    await expect(request('GET', '/api/SN1234/0/target_temperature')).resolves.toEqual({ status: 200, body: { value: 90 } });
+    await expect(request('GET', '/api/SN1234/1')).resolves.toMatchObject({ status: 404 });
+    await expect(request('GET', '/api/SN1234/%E0%A4%A')).resolves.toEqual({ status: 400, body: { error: 'Invalid URL' } });
+  });
+
+  it('writes a value and respects the safety policy', async () => {
+    await expect(request('PUT', '/api/SN1234/0/target_temperature', { value: 80 })).resolves.toEqual({ status: 200, body: { value: 80 } });
+    await expect(request('PUT', '/api/SN1234/0/target_temperature', { value: 'hot' })).resolves.toMatchObject({ status: 400 });
+    await expect(request('PUT', '/api/SN1234/0/active', { value: 1 }))
+      .resolves.toEqual({ status: 400, body: { error: 'Value "1" for "Sauna On/Off" is not a boolean' } });
+    gateway.setValue(0, SaunaCharacteristics.DOOR_OPEN.id, '1');
+    await expect(request('PUT', '/api/SN1234/0/active', { value: 'on' }))
+      .resolves.toEqual({ status: 409, body: { error: 'the cabin door is open' } });
+    await expect(request('PUT', '/api/SN1234/0/active', { value: true })).resolves.toMatchObject({ status: 409 });
+    expect(gateway.writes).toEqual([{ addr: '183/0/2', value: 80 }]);
+  });
+
+  it('limits a value like HomeKit', async () => {
+    await expect(request('PUT', '/api/SN1234/0/target_temperature', { value: 200 }))
+      .resolves.toEqual({ status: 200, body: { value: 100 } });
+    await expect(request('PUT', '/api/SN1234/0/target_temperature', { value: 82 })).resolves.toEqual({ status: 200, body: { value: 80 } });
+    await expect(request('PUT', '/api/SN1234/0/heating_duration', { value: 600 })).resolves.toEqual({ status: 200, body: { value: 360 } });
+  });
+});
@@ -0,0 +1,209 @@
+import http from 'http';
+import crypto from 'crypto';
+import { Logger } from 'homebridge';
+import { RestConfig } from './settings';
+import {
+  BridgeGateway,
+  checkWrite,
+  limitWrite,
+  readValues,
+} from './bridge';
+import {
+  SaunaValue,
+  convertCharacteristicValue,
+  findCharacteristicByName,
+} from './characteristics';
+
+/**
+ * the maximum size of a request body (1 kB)
+ */
+const MAX_BODY_SIZE = 1024;
+
+/**
+ * This interface defines the response to a request
+ */
+interface RestResponse {
+  /**
+   * the HTTP status code
+   */
+  status: number;
+  /**
+   * the body (sent as JSON)
+   */
+  body: unknown;
+}
+
+/**
+ * This class is the REST API for integrations without HomeKit. Every request needs the configured token as bearer token.
+ * GET /api lists the gateways and saunas, GET /api/<serial>/<sauna> returns all values of a sauna (and the estimated minutes to ready),
+ * GET /api/<serial>/<sauna>/<characteristic> returns one value and PUT (or POST) with {"value": ...} writes it.
+ */
+export class RestServer {
+  /**
+   * the HTTP server
+   */
+  private server?: http.Server;
+
+  /**
+   * the constructor
+   * @param log the logger to be used
+   * @param gateways the gateways to be served
+   * @param config the configuration of the API
+   */
+  constructor(private readonly log: Logger, private readonly gateways: BridgeGateway[], private readonly config: RestConfig) {
+  }
+
+  /**
+   * This function starts the HTTP server.
+   * @returns a Promise with the port the server listens on
+   */
+  public start(): Promise<number> {
+    return new Promise((resolve, reject) => {
+      if (!this.config.token) {
+        reject(new Error('The REST API needs a token'));
+        return;
+      }
+      const server = http.createServer(this.onRequest.bind(this));
+      this.server = server;
+      server.on('error', reject);
+      const host = this.config.host || '127.0.0.1';
+      server.listen(this.config.port, host, () => {
+        const port = (server.address() as { port: number }).port;
+        this.log.info('REST API listening on ' + host + ':' + port);
+        resolve(port);
+      });
+    });
+  }
+
+  /**
+   * This function stops the HTTP server.
+   * @returns a Promise for the execution
+   */
+  public stop(): Promise<void> {
+    return new Promise((resolve) => {
+      if (this.server === undefined) {
+        resolve();
+        return;
+      }
+      this.server.close(() => resolve());
+      this.server = undefined;
+    });
+  }
+
+  /**
+   * This function handles a request and sends the response.
+   * @param request the request
+   * @param response the response
+   */
+  private onRequest(request: http.IncomingMessage, response: http.ServerResponse) {
+    const send = (result: RestResponse) => {
+      response.writeHead(result.status, { 'Content-Type': 'application/json' });
+      response.end(JSON.stringify(result.body));
+    };
+    if (!this.isAuthorized(request.headers.authorization)) {
+      send({ status: 401, body: { error: 'Unauthorized' } });
+      return;
+    }
+    let body = '';
+    request.on('data', (chunk) => {
+      body += chunk;
+      if (body.length > MAX_BODY_SIZE) {
+        send({ status: 413, body: { error: 'Request too large' } });
+        request.destroy();
+      }
+    });
+    request.on('end', () => {
+      // an unexpected error must not end Homebridge
+      Promise.resolve()
+        .then(() => this.handle(request.method || 'GET', (request.url || '/').split('?')[0], body, request.socket.remoteAddress || ''))
+        .catch((error) => ({ status: 502, body: { error: error.message } }))
+        .then(send);
+    });
+  }
+
+  /**
+   * This function checks the bearer token of a request (in constant time).
+   * @param authorization the Authorization header
+   * @returns true, if the token is valid
+   */
+  private isAuthorized(authorization?: string): boolean {
+    const expected = Buffer.from('Bearer ' + this.config.token);
+    const actual = Buffer.from(authorization || '');
+    return actual.length === expected.length && crypto.timingSafeEqual(actual, expected);
+  }
+
+  /**
+   * This function handles a request.
+   * @param method the HTTP method
+   * @param path the path of the URL
+   * @param body the body of the request
+   * @param remoteAddress the address of the client (checked by the safety policy for a start)
+   * @returns a Promise with the response (rejected, if the gateway failed)
+   */
+  private handle(method: string, path: string, body: string, remoteAddress: string): Promise<RestResponse> {
+    let parts: string[];
+    try {
+      parts = path.split('/').filter((part) => part.length > 0).map((part) => decodeURIComponent(part));
+    } catch (error) {
+      return Promise.resolve({ status: 400, body: { error: 'Invalid URL' } });
+    }
+    if (parts[0] !== 'api') {
+      return Promise.resolve({ status: 404, body: { error: 'Not found' } });
+    }
+    if (parts.length === 1 && method === 'GET') {
+      return Promise.resolve({
+        status: 200,
+        body: this.gateways.map((gateway) => ({
+          serial: gateway.serial,
+          saunas: gateway.saunas.map((sauna) => ({ id: sauna.id, name: sauna.name })),
+        })),
+      });
+    }
+    const gateway = this.gateways.find((candidate) => candidate.serial === parts[1]);
+    const saunaID = parseInt(parts[2]);
+    if (gateway === undefined || parts.length < 3 || parts.length > 4 || !gateway.saunas.some((sauna) => sauna.id === saunaID)) {
+      return Promise.resolve({ status: 404, body: { error: 'Unknown gateway or sauna' } });
+    }
+    if (parts.length === 3) {
+      const estimate = gateway.minutesToReady.get(saunaID);
+      return method === 'GET' ?
+        readValues(gateway, saunaID).then((values) => ({
+          status: 200,
+          body: { ...values, minutes_to_ready: estimate !== undefined ? estimate() : undefined },
+        })) :
+        Promise.resolve({ status: 405, body: { error: 'Method not allowed' } });
+    }
+    const characteristic = findCharacteristicByName(parts[3]);
+    if (characteristic === undefined) {
+      return Promise.resolve({ status: 404, body: { error: 'Unknown characteristic ' + parts[3] } });
+    }
+    if (method === 'GET') {
+      return gateway.api.getCharacteristic(saunaID, characteristic)
+        .then((value) => ({ status: 200, body: { value } }));
+    }
+    if (method !== 'PUT' && method !== 'POST') {
+      return Promise.resolve({ status: 405, body: { error: 'Method not allowed' } });
+    }
+    let value: SaunaValue;
+    try {
+      const requested = JSON.parse(body).value;
+      if (requested === undefined || requested === null) {
+        throw new Error('The value is missing');
+      }
+      value = limitWrite(gateway, saunaID, characteristic, convertCharacteristicValue(characteristic, requested));
+      characteristic.serialize(value);
+    } catch (error) {
+      return Promise.resolve({ status: 400, body: { error: error instanceof SyntaxError ? 'Invalid JSON' : error.message } });
+    }
+    return checkWrite(gateway, saunaID, characteristic, value, { remoteAddress })
+      .then((refusal) => {
+        if (refusal !== undefined) {
+          this.log.warn('Refused REST write of "' + characteristic.name + '": ' + refusal);
+          return { status: 409, body: { error: refusal } };
+        }
+        this.log.info('Setting "' + characteristic.name + '" of sauna ' + saunaID + ' to ' + value + ' via REST');
+        return gateway.api.setCharacterstic(saunaID, characteristic, value)
+          .then((confirmed) => ({ status: 200, body: { value: confirmed } }));
+      });
+  }
+}
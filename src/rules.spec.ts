@@ -0,0 +1,156 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { EventEmitter } from 'events';
+import { SaunaRules } from './rules';
+import { SentiotecAPI } from './websocket';
+import { SaunaCharacteristics } from './characteristics';
+import { RuleConfig } from './settings';
+import {
+  createLogger,
+  waitForJsonFile,
+} from './testUtils';
+
+describe('SaunaRules', () => {
+  let currentTemperature: number;
+  let sentioAPI: SentiotecAPI;
+  let rules: SaunaRules;
+
+  /**
+   * This function creates and starts the rules of a sauna limited to 100 °C.
+   * @param config the rules
+   * @param enabled the enabled state per rule name
+   * @param file the file the state of the rules is stored in (if any)
+   */
+  function startRules(config: RuleConfig[], enabled: { [name: string]: boolean } = {}, file?: string) {
+    rules = new SaunaRules(createLogger(), sentioAPI, { id: 0, name: 'Sauna', rules: config }, enabled, (value) => Math.min(value, 100),
+      file);
+    rules.start();
+  }
+
+  /**
+   * This function reports the values of the sauna like an update of the gateway.
+   * @param active indicates that the sauna is on
+   * @param targetTemperature the target temperature
+   */
+  function update(active: boolean, targetTemperature: number) {
+    sentioAPI.emit('update', 0, SaunaCharacteristics.ACTIVE, active);
+    sentioAPI.emit('update', 0, SaunaCharacteristics.TARGET_TEMPERATURE, targetTemperature);
+    sentioAPI.emit('update', 0, SaunaCharacteristics.CURRENT_TEMPERATURE, currentTemperature);
+  }
+
+  /**
+   * This function advances the time minute by minute and waits for the requested values.
+   * @param minutes the minutes to advance
+   */
+  async function advance(minutes: number) {
+    for (let minute = 0; minute < minutes; minute++) {
+      jest.advanceTimersByTime(60000);
+      await Promise.resolve();
+      await Promise.resolve();
+    }
+  }
+
+  beforeEach(() => {
+    currentTemperature = 20;
+    sentioAPI = Object.assign(new EventEmitter(), {
+      getCharacteristic: jest.fn(() => Promise.resolve(currentTemperature)),
+      setCharacterstic: jest.fn((saunaID, characteristic, value) => Promise.resolve(value)),
+    }) as unknown as SentiotecAPI;
+    jest.useFakeTimers('modern');
+  });
+
+  afterEach(() => {
+    rules.stop();
+    jest.useRealTimers();
+  });
+
+  it('boosts with the maximum temperature until the target temperature is reached', () => {
+    startRules([{ name: 'Boost', type: 'boost' }], { Boost: true });
+    update(false, 80);
+    update(true, 80);
+    jest.advanceTimersByTime(0);
+    expect(sentioAPI.setCharacterstic).toHaveBeenLastCalledWith(0, SaunaCharacteristics.TARGET_TEMPERATURE, 100);
+    sentioAPI.emit('update', 0, SaunaCharacteristics.TARGET_TEMPERATURE, 100);
+    expect(rules.getUserTarget(100)).toBe(80);
+    sentioAPI.emit('update', 0, SaunaCharacteristics.CURRENT_TEMPERATURE, 79);
+    expect(sentioAPI.setCharacterstic).toHaveBeenCalledTimes(1);
+    sentioAPI.emit('update', 0, SaunaCharacteristics.CURRENT_TEMPERATURE, 80);
+    expect(sentioAPI.setCharacterstic).toHaveBeenLastCalledWith(0, SaunaCharacteristics.TARGET_TEMPERATURE, 80);
+    expect(rules.getUserTarget(100)).toBe(100);
+  });
+
+  it('holds the eco temperature and switches the sauna off after the configured hours', async () => {
+    startRules([{ name: 'Eco', type: 'eco', hours: 1 }], { Eco: true });
+    update(false, 80);
+    update(true, 80);
+    jest.advanceTimersByTime(0);
+    expect(sentioAPI.setCharacterstic).toHaveBeenLastCalledWith(0, SaunaCharacteristics.TARGET_TEMPERATURE, 60);
+    await advance(59);
+    expect(sentioAPI.setCharacterstic).toHaveBeenCalledTimes(1);
+    await advance(1);
+    expect(sentioAPI.setCharacterstic).toHaveBeenLastCalledWith(0, SaunaCharacteristics.ACTIVE, false);
+  });
+
+  it('engages the rules if the sauna is already on when the plugin starts', () => {
+    startRules([{ name: 'Boost', type: 'boost' }], { Boost: true });
+    update(true, 80);
+    jest.advanceTimersByTime(0);
+    expect(sentioAPI.setCharacterstic).toHaveBeenLastCalledWith(0, SaunaCharacteristics.TARGET_TEMPERATURE, 100);
+  });
+
+  it('keeps the end of an eco hold across restarts', async () => {
+    const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'sentiotec-rules-'));
+    const file = path.join(directory, 'sentiotec', 'SN1234-0-rules.json');
+    try {
+      startRules([{ name: 'Eco', type: 'eco', hours: 1 }], { Eco: true }, file);
+      update(false, 80);
+      update(true, 80);
+      jest.advanceTimersByTime(0);
+      rules.stop();
+      jest.useRealTimers();
+      await expect(waitForJsonFile(file)).resolves.toEqual({ ecoUntil: { Eco: expect.any(Number) } });
+      jest.useFakeTimers('modern');
+      jest.setSystemTime(Date.now() + 30 * 60000);
+      (sentioAPI.setCharacterstic as jest.Mock).mockClear();
+      startRules([{ name: 'Eco', type: 'eco', hours: 1 }], { Eco: true }, file);
+      update(true, 60);
+      jest.advanceTimersByTime(0);
+      await advance(29);
+      expect(sentioAPI.setCharacterstic).not.toHaveBeenCalled();
+      await advance(1);
+      expect(sentioAPI.setCharacterstic).toHaveBeenCalledWith(0, SaunaCharacteristics.ACTIVE, false);
+    } finally {
+      fs.rmSync(directory, { recursive: true, force: true });
+    }
+  });
+
+  it('switches the sauna off if the temperature does not rise while heating up', async () => {
+    startRules([{ name: 'Heater Check', type: 'heaterCheck' }], { 'Heater Check': true });
+    update(false, 90);
+    update(true, 90);
+    jest.advanceTimersByTime(0);
+    await advance(15);
+    // the rise is seen with the next request
+    currentTemperature = 25;
+    await advance(20);
+    expect(sentioAPI.setCharacterstic).not.toHaveBeenCalled();
+    await advance(1);
+    expect(sentioAPI.setCharacterstic).toHaveBeenCalledWith(0, SaunaCharacteristics.ACTIVE, false);
+  });
+
+  it('ignores disabled rules', async () => {
+    const enabled: { [name: string]: boolean } = {};
+    startRules([{ name: 'Heater Check', type: 'heaterCheck' }, { name: 'Boost', type: 'boost' }], enabled);
+    expect(rules.isEnabled('Boost')).toBe(false);
+    rules.setEnabled('Heater Check', true);
+    rules.setEnabled('Heater Check', false);
+    expect(enabled).toEqual({ 'Heater Check': false });
+    update(false, 90);
+    update(true, 90);
+    jest.advanceTimersByTime(0);
+    await advance(30);
+    expect(sentioAPI.getCharacteristic).not.toHaveBeenCalled();
+    expect(sentioAPI.setCharacterstic).not.toHaveBeenCalled();
+  });
+});
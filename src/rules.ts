@@ -0,0 +1,424 @@
+import fs from 'fs';
+import { Logger } from 'homebridge';
+import { SentiotecAPI } from './websocket';
+import {
+  SaunaCharacteristic,
+  SaunaCharacteristics,
+  SaunaValue,
+} from './characteristics';
+import {
+  RuleConfig,
+  SaunaConfig,
+} from './settings';
+import { writeJsonFile } from './storage';
+
+/**
+ * the interval in which the time-based conditions of the rules are checked (1 min)
+ */
+const RULE_INTERVAL = 60000;
+/**
+ * the default temperature held by an eco rule (°C)
+ */
+const DEFAULT_ECO_TEMPERATURE = 60;
+/**
+ * the default duration of an eco hold (hours)
+ */
+const DEFAULT_ECO_HOURS = 2;
+/**
+ * the default time the temperature has to rise within while heating up (min)
+ */
+const DEFAULT_CHECK_MINUTES = 20;
+/**
+ * the default minimum rise of the temperature within that time (°C)
+ */
+const DEFAULT_MIN_RISE = 1;
+/**
+ * the distance to the target temperature from which on the sauna is not heating up anymore (°C)
+ */
+const HEATING_TOLERANCE = 2;
+/**
+ * the known types of rules
+ */
+const RULE_TYPES = ['boost', 'eco', 'heaterCheck'];
+
+/**
+ * This interface defines the state of a rule engaged while the sauna is on
+ */
+interface RuleState {
+  /**
+   * the target temperature to return to after a boost (undefined, if no boost is running)
+   */
+  boostTarget?: number;
+  /**
+   * the end of an eco hold (timestamp)
+   */
+  ecoUntil?: number;
+  /**
+   * the temperature and the time the last rise has been seen while heating up
+   */
+  reference?: { temperature: number; time: number };
+}
+
+/**
+ * This class is the rules engine of a sauna. The enabled rules are evaluated against the live temperatures reported by the gateway
+ * and change the target temperature or switch the sauna off. Every action is logged.
+ * Rules are disabled until they are switched on in HomeKit. The end of a running eco hold is kept across restarts.
+ */
+export class SaunaRules {
+  /**
+   * the valid rules
+   */
+  private readonly rules: RuleConfig[] = [];
+  /**
+   * the state per rule name
+   */
+  private readonly states: Map<string, RuleState> = new Map();
+  /**
+   * indicates that the sauna is on (undefined, if not known yet)
+   */
+  private active?: boolean;
+  /**
+   * the current temperature
+   */
+  private currentTemperature?: number;
+  /**
+   * the target temperature
+   */
+  private targetTemperature?: number;
+  /**
+   * the timer requesting the current values and checking the time-based conditions
+   */
+  private timer?: NodeJS.Timeout;
+  /**
+   * the listener for the updates of the gateway
+   */
+  private readonly listener = this.onUpdate.bind(this);
+  /**
+   * the stored ends of the eco holds (to skip unchanged writes)
+   */
+  private savedState?: string;
+
+  /**
+   * the constructor
+   * @param log the logger to be used
+   * @param sentioAPI the API of the gateway
+   * @param saunaConfig the configuration of the sauna
+   * @param enabled the enabled state per rule name (stored in the accessory context, will be updated in place)
+   * @param limitTargetTemperature the function limiting a target temperature to the configured range
+   * @param file the file the ends of the eco holds are stored in, so they are kept across restarts (not stored, if undefined)
+   */
+  constructor(
+    private readonly log: Logger,
+    private readonly sentioAPI: SentiotecAPI,
+    private readonly saunaConfig: SaunaConfig,
+    private readonly enabled: { [name: string]: boolean },
+    private readonly limitTargetTemperature: (value: number) => number,
+    private readonly file?: string,
+  ) {
+    for (const rule of saunaConfig.rules || []) {
+      if (!rule.name || !RULE_TYPES.includes(rule.type)) {
+        this.log.error('Ignoring rule "' + rule.name + '" with invalid type "' + rule.type + '"');
+        continue;
+      }
+      if (this.rules.some((other) => other.name === rule.name)) {
+        this.log.error('Ignoring rule "' + rule.name + '", the name is already used');
+        continue;
+      }
+      this.rules.push(rule);
+      this.states.set(rule.name, {});
+    }
+    if (file !== undefined) {
+      try {
+        this.savedState = fs.readFileSync(file, 'utf8');
+        const ecoUntil: { [name: string]: number } = JSON.parse(this.savedState).ecoUntil || {};
+        Object.keys(ecoUntil).filter((name) => this.states.has(name)).forEach((name) => {
+          this.states.get(name)!.ecoUntil = ecoUntil[name];
+        });
+      } catch (error) {
+        if (error.code !== 'ENOENT') {
+          this.log.warn('Loading the state of the rules from ' + file + ' failed: ' + error.message);
+        }
+      }
+    }
+  }
+
+  /**
+   * This function returns the valid rules.
+   * @returns the rules
+   */
+  public getRules(): RuleConfig[] {
+    return this.rules;
+  }
+
+  /**
+   * This function returns if a rule is enabled.
+   * @param name the name of the rule
+   * @returns true, if the rule has been enabled
+   */
+  public isEnabled(name: string): boolean {
+    return this.enabled[name] === true;
+  }
+
+  /**
+   * This function returns the target temperature set by the user, as a running boost replaces it with the maximum temperature.
+   * @param targetTemperature the target temperature reported by the gateway
+   * @returns the target temperature to return to after the boost, if a boost is running, otherwise the reported target temperature
+   */
+  public getUserTarget(targetTemperature: number): number {
+    if (targetTemperature === this.getMaxTemperature()) {
+      for (const state of this.states.values()) {
+        if (state.boostTarget !== undefined) {
+          return state.boostTarget;
+        }
+      }
+    }
+    return targetTemperature;
+  }
+
+  /**
+   * This function enables or disables a rule. A disabled boost returns to its target temperature.
+   * @param name the name of the rule
+   * @param enabled true to enable the rule
+   */
+  public setEnabled(name: string, enabled: boolean) {
+    this.log.info((enabled ? 'Enabling' : 'Disabling') + ' rule "' + name + '"');
+    this.enabled[name] = enabled;
+    const rule = this.rules.find((candidate) => candidate.name === name);
+    if (rule === undefined) {
+      return;
+    }
+    const state = this.states.get(name)!;
+    if (!enabled) {
+      if (state.boostTarget !== undefined) {
+        this.act(rule, SaunaCharacteristics.TARGET_TEMPERATURE, state.boostTarget, 'boost cancelled, target temperature ' +
+          state.boostTarget + ' °C');
+      }
+      this.states.set(name, {});
+      this.saveState();
+    } else if (this.active === true) {
+      this.engage(rule);
+    }
+  }
+
+  /**
+   * This function starts evaluating the rules.
+   */
+  public start() {
+    if (this.rules.length === 0 || this.timer !== undefined) {
+      return;
+    }
+    this.sentioAPI.on('update', this.listener);
+    this.timer = setInterval(this.poll.bind(this), RULE_INTERVAL);
+  }
+
+  /**
+   * This function stops evaluating the rules.
+   */
+  public stop() {
+    if (this.timer !== undefined) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+      this.sentioAPI.removeListener('update', this.listener);
+    }
+  }
+
+  /**
+   * This function handles a value reported by the gateway.
+   * @param saunaID the ID of the sauna
+   * @param saunaCharacteristic the characteristic
+   * @param value the typed value
+   */
+  private onUpdate(saunaID: number, saunaCharacteristic: SaunaCharacteristic, value: SaunaValue) {
+    if (saunaID !== this.saunaConfig.id) {
+      return;
+    }
+    switch (saunaCharacteristic.id) {
+      case SaunaCharacteristics.ACTIVE.id: {
+        const previous = this.active;
+        this.active = value as boolean;
+        if (!this.active) {
+          this.rules.forEach((rule) => this.states.set(rule.name, {}));
+          this.saveState();
+        } else if (previous !== true) {
+          // switched on (or already on when the plugin started), the current values of this update may still follow
+          setImmediate(() => this.rules.filter((rule) => this.isEnabled(rule.name)).forEach((rule) => this.engage(rule)));
+        }
+        break;
+      }
+      case SaunaCharacteristics.TARGET_TEMPERATURE.id:
+        this.targetTemperature = value as number;
+        this.rules.filter((rule) => rule.type === 'boost').forEach((rule) => {
+          const state = this.states.get(rule.name)!;
+          if (state.boostTarget !== undefined && value !== this.getMaxTemperature()) {
+            this.log.info('Rule "' + rule.name + '": target temperature changed to ' + value + ' °C, boost cancelled');
+            state.boostTarget = undefined;
+          }
+        });
+        break;
+      case SaunaCharacteristics.CURRENT_TEMPERATURE.id:
+        this.currentTemperature = value as number;
+        this.check();
+        break;
+    }
+  }
+
+  /**
+   * This function engages a rule as the sauna has been switched on (or the rule has been enabled while it is on).
+   * @param rule the rule
+   */
+  private engage(rule: RuleConfig) {
+    const state = this.states.get(rule.name)!;
+    switch (rule.type) {
+      case 'boost': {
+        const target = rule.temperature !== undefined ? this.limitTargetTemperature(rule.temperature) : this.targetTemperature;
+        const maxTemperature = this.getMaxTemperature();
+        if (target === undefined || target >= maxTemperature || state.boostTarget !== undefined ||
+          (this.currentTemperature !== undefined && this.currentTemperature >= target)) {
+          return;
+        }
+        state.boostTarget = target;
+        this.act(rule, SaunaCharacteristics.TARGET_TEMPERATURE, maxTemperature, 'boosting with ' + maxTemperature + ' °C until ' +
+          target + ' °C are reached');
+        break;
+      }
+      case 'eco': {
+        if (state.ecoUntil !== undefined) {
+          this.log.info('Rule "' + rule.name + '" of "' + this.saunaConfig.name + '": keeping the eco hold until ' +
+            new Date(state.ecoUntil).toLocaleString());
+          break;
+        }
+        const temperature = this.limitTargetTemperature(rule.temperature !== undefined ? rule.temperature : DEFAULT_ECO_TEMPERATURE);
+        const hours = rule.hours !== undefined ? rule.hours : DEFAULT_ECO_HOURS;
+        state.ecoUntil = Date.now() + hours * 3600000;
+        this.saveState();
+        this.act(rule, SaunaCharacteristics.TARGET_TEMPERATURE, temperature, 'holding ' + temperature + ' °C for ' + hours + ' h');
+        break;
+      }
+      case 'heaterCheck':
+        state.reference = undefined;
+        this.check();
+        break;
+    }
+  }
+
+  /**
+   * This function requests the current values (without a persistent connection they are only pushed on a request) and checks the rules.
+   */
+  private poll() {
+    if (!this.rules.some((rule) => this.isEnabled(rule.name))) {
+      return;
+    }
+    this.sentioAPI.getCharacteristic(this.saunaConfig.id, SaunaCharacteristics.CURRENT_TEMPERATURE)
+      .then((temperature) => {
+        if (temperature !== undefined) {
+          this.currentTemperature = temperature;
+        }
+        this.check();
+      })
+      .catch((error) => {
+        this.log.debug('Current temperature for the rules not available: ' + (error.message ? error.message : error));
+      });
+  }
+
+  /**
+   * This function checks the conditions of the enabled rules against the current values.
+   */
+  private check() {
+    if (this.active !== true) {
+      return;
+    }
+    const now = Date.now();
+    for (const rule of this.rules.filter((candidate) => this.isEnabled(candidate.name))) {
+      const state = this.states.get(rule.name)!;
+      switch (rule.type) {
+        case 'boost':
+          if (state.boostTarget !== undefined && this.currentTemperature !== undefined && this.currentTemperature >= state.boostTarget) {
+            const target = state.boostTarget;
+            state.boostTarget = undefined;
+            this.act(rule, SaunaCharacteristics.TARGET_TEMPERATURE, target, this.currentTemperature + ' °C reached, dropping the ' +
+              'target temperature to ' + target + ' °C');
+          }
+          break;
+        case 'eco':
+          if (state.ecoUntil !== undefined && now >= state.ecoUntil) {
+            state.ecoUntil = undefined;
+            this.saveState();
+            this.act(rule, SaunaCharacteristics.ACTIVE, false, 'eco hold finished, switching the sauna off');
+          }
+          break;
+        case 'heaterCheck':
+          this.checkHeater(rule, state, now);
+          break;
+      }
+    }
+  }
+
+  /**
+   * This function switches the sauna off, if the temperature has not risen in time while heating up (e.g. a heater fault).
+   * @param rule the rule
+   * @param state the state of the rule
+   * @param now the current time
+   */
+  private checkHeater(rule: RuleConfig, state: RuleState, now: number) {
+    const current = this.currentTemperature;
+    if (current === undefined || this.targetTemperature === undefined) {
+      return;
+    }
+    const minRise = rule.minRise !== undefined ? rule.minRise : DEFAULT_MIN_RISE;
+    if (state.reference === undefined || current >= state.reference.temperature + minRise ||
+      current >= this.targetTemperature - HEATING_TOLERANCE) {
+      // heating up as expected (or not heating up at all)
+      state.reference = { temperature: current, time: now };
+      return;
+    }
+    const minutes = rule.minutes !== undefined ? rule.minutes : DEFAULT_CHECK_MINUTES;
+    if (now - state.reference.time >= minutes * 60000) {
+      this.log.error('Rule "' + rule.name + '": the temperature has not risen for ' + minutes + ' min (' + current +
+        ' °C), is the heater faulty?');
+      state.reference = undefined;
+      this.act(rule, SaunaCharacteristics.ACTIVE, false, 'switching the sauna off');
+    }
+  }
+
+  /**
+   * This function returns the maximum target temperature of the sauna.
+   * @returns the maximum in °C
+   */
+  private getMaxTemperature(): number {
+    return this.limitTargetTemperature(SaunaCharacteristics.TARGET_TEMPERATURE.maxValue!);
+  }
+
+  /**
+   * This function stores the ends of the running eco holds, if they have changed.
+   */
+  private saveState() {
+    const ecoUntil: { [name: string]: number } = {};
+    this.states.forEach((state, name) => {
+      if (state.ecoUntil !== undefined) {
+        ecoUntil[name] = state.ecoUntil;
+      }
+    });
+    const savedState = JSON.stringify({ ecoUntil });
+    // nothing to store before the first eco hold
+    if (this.file === undefined || savedState === this.savedState ||
+      (this.savedState === undefined && Object.keys(ecoUntil).length === 0)) {
+      return;
+    }
+    this.savedState = savedState;
+    writeJsonFile(this.file, { ecoUntil })
+      .catch((error) => this.log.error('Saving the state of the rules failed: ' + error.message));
+  }
+
+  /**
+   * This function executes the action of a rule and logs it.
+   * @param rule the rule
+   * @param saunaCharacteristic the characteristic to be set
+   * @param value the value
+   * @param description the description of the action
+   */
+  private act<T extends SaunaValue>(rule: RuleConfig, saunaCharacteristic: SaunaCharacteristic<T>, value: T, description: string) {
+    this.log.info('Rule "' + rule.name + '" of "' + this.saunaConfig.name + '": ' + description);
+    this.sentioAPI.setCharacterstic(this.saunaConfig.id, saunaCharacteristic, value)
+      .catch((error) => this.log.error('Rule "' + rule.name + '" failed: ' + (error.message ? error.message : error)));
+  }
+}
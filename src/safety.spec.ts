@@ -0,0 +1,118 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { SafetyPolicy } from './safety';
+import { SentiotecAPI } from './websocket';
+import { SaunaCharacteristics } from './characteristics';
+import {
+  createLogger,
+  waitFor,
+  waitForJsonFile,
+} from './testUtils';
+
+describe('SafetyPolicy', () => {
+  let values: Map<number, unknown>;
+  let sentioAPI: SentiotecAPI;
+
+  beforeEach(() => {
+    values = new Map();
+    values.set(SaunaCharacteristics.DOOR_OPEN.id, false);
+    values.set(SaunaCharacteristics.FAULT_CODE.id, 0);
+    sentioAPI = {
+      supports: jest.fn(() => true),
+      getCharacteristic: jest.fn((saunaID, characteristic) => Promise.resolve(values.get(characteristic.id))),
+      setCharacterstic: jest.fn((saunaID, characteristic, value) => Promise.resolve(value)),
+    } as unknown as SentiotecAPI;
+    jest.useFakeTimers('modern');
+    jest.setSystemTime(new Date(2021, 5, 1, 23, 30));
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('allows a start without a fault and with a closed door', async () => {
+    const policy = new SafetyPolicy(createLogger(), sentioAPI, { id: 0, name: 'Sauna', doorCheck: true, faultCheck: true });
+    await expect(policy.checkStart({ remoteAddress: '192.168.1.30' })).resolves.toBeUndefined();
+  });
+
+  it('refuses a start on a fault only if enabled', async () => {
+    values.set(SaunaCharacteristics.FAULT_CODE.id, 3);
+    const policy = new SafetyPolicy(createLogger(), sentioAPI, { id: 0, name: 'Sauna', faultCheck: true });
+    await expect(policy.checkStart()).resolves.toMatch(/fault/);
+    const unchecked = new SafetyPolicy(createLogger(), sentioAPI, { id: 0, name: 'Sauna' });
+    await expect(unchecked.checkStart()).resolves.toBeUndefined();
+    expect(sentioAPI.getCharacteristic).toHaveBeenCalledTimes(1);
+  });
+
+  it('refuses a start while the door or the fault state is unknown, if the checks are enabled', async () => {
+    values.delete(SaunaCharacteristics.DOOR_OPEN.id);
+    const policy = new SafetyPolicy(createLogger(), sentioAPI, { id: 0, name: 'Sauna', doorCheck: true, faultCheck: true });
+    await expect(policy.checkStart()).resolves.toBe('the state of the cabin door is unknown');
+    values.set(SaunaCharacteristics.DOOR_OPEN.id, false);
+    values.delete(SaunaCharacteristics.FAULT_CODE.id);
+    await expect(policy.checkStart()).resolves.toBe('the fault state of the controller is unknown');
+    values.delete(SaunaCharacteristics.DOOR_OPEN.id);
+    const unchecked = new SafetyPolicy(createLogger(), sentioAPI, { id: 0, name: 'Sauna' });
+    await expect(unchecked.checkStart()).resolves.toBeUndefined();
+  });
+
+  it('allows a start from HomeKit only during the allowed hours', async () => {
+    const policy = new SafetyPolicy(createLogger(), sentioAPI, { id: 0, name: 'Sauna', allowedFrom: '07:00', allowedUntil: '22:00' });
+    await expect(policy.checkStart({ remoteAddress: '192.168.1.30' })).resolves.toMatch(/only allowed/);
+    // a schedule is not restricted
+    await expect(policy.checkStart()).resolves.toBeUndefined();
+    const overnight = new SafetyPolicy(createLogger(), sentioAPI, { id: 0, name: 'Sauna', allowedFrom: '18:00', allowedUntil: '01:00' });
+    await expect(overnight.checkStart({ remoteAddress: '192.168.1.30' })).resolves.toBeUndefined();
+  });
+
+  it('switches the sauna off after the maximum runtime', () => {
+    const policy = new SafetyPolicy(createLogger(), sentioAPI, { id: 0, name: 'Sauna', maxRuntime: 60 });
+    expect(policy.limitHeatingDuration(90)).toBe(60);
+    policy.watchRuntime(true);
+    jest.advanceTimersByTime(59 * 60000);
+    expect(sentioAPI.setCharacterstic).not.toHaveBeenCalled();
+    jest.advanceTimersByTime(60000);
+    expect(sentioAPI.setCharacterstic).toHaveBeenCalledWith(0, SaunaCharacteristics.ACTIVE, false);
+  });
+
+  it('retries the switch-off after the maximum runtime until it succeeded', async () => {
+    (sentioAPI.setCharacterstic as jest.Mock).mockImplementationOnce(() => Promise.reject(new Error('Gateway not reachable')));
+    const policy = new SafetyPolicy(createLogger(), sentioAPI, { id: 0, name: 'Sauna', maxRuntime: 60 });
+    policy.watchRuntime(true);
+    jest.advanceTimersByTime(60 * 60000);
+    await Promise.resolve();
+    await Promise.resolve();
+    expect(sentioAPI.setCharacterstic).toHaveBeenCalledTimes(1);
+    jest.advanceTimersByTime(60000);
+    expect(sentioAPI.setCharacterstic).toHaveBeenCalledTimes(2);
+    await Promise.resolve();
+    jest.advanceTimersByTime(10 * 60000);
+    expect(sentioAPI.setCharacterstic).toHaveBeenCalledTimes(2);
+  });
+
+  it('keeps the deadline of the maximum runtime across restarts', async () => {
+    const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'sentiotec-runtime-'));
+    const file = path.join(directory, 'sentiotec', 'SN1234-0-runtime.json');
+    try {
+      const policy = new SafetyPolicy(createLogger(), sentioAPI, { id: 0, name: 'Sauna', maxRuntime: 60 }, file);
+      policy.watchRuntime(true);
+      policy.stop();
+      jest.useRealTimers();
+      await waitForJsonFile(file);
+      jest.useFakeTimers('modern');
+      jest.setSystemTime(new Date(2021, 5, 1, 23, 45));
+      const restarted = new SafetyPolicy(createLogger(), sentioAPI, { id: 0, name: 'Sauna', maxRuntime: 60 }, file);
+      restarted.watchRuntime(true);
+      jest.advanceTimersByTime(44 * 60000);
+      expect(sentioAPI.setCharacterstic).not.toHaveBeenCalled();
+      jest.advanceTimersByTime(60000);
+      expect(sentioAPI.setCharacterstic).toHaveBeenCalledWith(0, SaunaCharacteristics.ACTIVE, false);
+      // the deadline is removed after the switch-off
+      jest.useRealTimers();
+      await waitFor(() => fs.readFileSync(file, 'utf8') === '{}');
+    } finally {
+      fs.rmSync(directory, { recursive: true, force: true });
+    }
+  });
+});
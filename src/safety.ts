@@ -0,0 +1,276 @@
+import fs from 'fs';
+import { Logger } from 'homebridge';
+import { SentiotecAPI } from './websocket';
+import { SaunaCharacteristics } from './characteristics';
+import { decodeFault } from './faults';
+import { SaunaConfig } from './settings';
+import { parseTime } from './scheduler';
+import { writeJsonFile } from './storage';
+
+/**
+ * the default maximum runtime after which the sauna is switched off (6 hours in minutes)
+ */
+const DEFAULT_MAX_RUNTIME = 360;
+/**
+ * the delay before a failed switch-off after the maximum runtime is retried (1 min)
+ */
+const SWITCH_OFF_RETRY = 60000;
+
+/**
+ * This interface defines the origin of a request from HomeKit (the HAP connection of the controller)
+ */
+export interface RequestOrigin {
+  /**
+   * the IP address of the controller
+   */
+  readonly remoteAddress: string;
+  /**
+   * the ID of the paired controller (if authenticated)
+   */
+  readonly username?: string;
+}
+
+/**
+ * the origin of a start requested via MQTT (the client is not known, so it is trusted by the name "mqtt")
+ */
+export const MQTT_ORIGIN: RequestOrigin = { remoteAddress: 'mqtt' };
+
+/**
+ * This class is the safety policy of a sauna. It decides if the sauna may be switched on remotely
+ * and switches it off after the maximum runtime.
+ */
+export class SafetyPolicy {
+  /**
+   * the maximum runtime in minutes after which the sauna is switched off (0 for no limit)
+   */
+  public readonly maxRuntime: number;
+  /**
+   * indicates that a start is refused while the door is open (or its state is unknown)
+   */
+  private readonly doorCheck: boolean;
+  /**
+   * indicates that a start is refused while the controller reports a fault (or the fault state is unknown)
+   */
+  private readonly faultCheck: boolean;
+  /**
+   * the IP addresses or IDs of the controllers allowed to start the sauna (all, if empty)
+   */
+  private readonly trustedControllers: string[];
+  /**
+   * the time of the day from which a start from HomeKit is allowed (minutes since midnight)
+   */
+  private readonly allowedFrom?: number;
+  /**
+   * the time of the day until which a start from HomeKit is allowed (minutes since midnight)
+   */
+  private readonly allowedUntil?: number;
+  /**
+   * the timer switching the sauna off after the maximum runtime (or retrying a failed switch-off)
+   */
+  private runtimeTimer?: NodeJS.Timeout;
+  /**
+   * the time the sauna has to be switched off (timestamp, undefined if the sauna is off)
+   */
+  private deadline?: number;
+
+  /**
+   * the constructor
+   * @param log the logger to be used
+   * @param sentioAPI the API of the gateway the sauna is connected to
+   * @param saunaConfig the configuration of the sauna
+   * @param file the file the deadline of the maximum runtime is stored in, so it is kept across restarts (not stored, if undefined)
+   */
+  constructor(private readonly log: Logger, private readonly sentioAPI: SentiotecAPI, private readonly saunaConfig: SaunaConfig,
+    private readonly file?: string) {
+    this.maxRuntime = saunaConfig.maxRuntime !== undefined ? saunaConfig.maxRuntime : DEFAULT_MAX_RUNTIME;
+    if (file !== undefined) {
+      try {
+        this.deadline = JSON.parse(fs.readFileSync(file, 'utf8')).deadline;
+      } catch (error) {
+        if (error.code !== 'ENOENT') {
+          this.log.warn('Loading the maximum runtime from ' + file + ' failed: ' + error.message);
+        }
+      }
+    }
+    // the addresses of the door contact and the fault code have not been verified, so the checks are only done if enabled
+    this.doorCheck = saunaConfig.doorCheck === true;
+    this.faultCheck = saunaConfig.faultCheck === true;
+    if (this.doorCheck && !sentioAPI.supports(SaunaCharacteristics.DOOR_OPEN)) {
+      this.log.warn('The door contact of "' + saunaConfig.name + '" is not read (enable unverifiedAddresses), every start will be refused');
+    }
+    if (this.faultCheck && !sentioAPI.supports(SaunaCharacteristics.FAULT_CODE)) {
+      this.log.warn('The fault code of "' + saunaConfig.name + '" is not read (enable unverifiedAddresses), every start will be refused');
+    }
+    this.trustedControllers = (saunaConfig.trustedControllers || []).map((controller) => controller.trim().toLowerCase());
+    if (saunaConfig.allowedFrom !== undefined || saunaConfig.allowedUntil !== undefined) {
+      const from = parseTime(saunaConfig.allowedFrom || '0:00');
+      const until = parseTime(saunaConfig.allowedUntil || '23:59');
+      if (from === undefined || until === undefined) {
+        this.log.error('Invalid allowed hours for "' + saunaConfig.name + '", ignoring them');
+      } else {
+        this.allowedFrom = from.hours * 60 + from.minutes;
+        this.allowedUntil = until.hours * 60 + until.minutes;
+      }
+    }
+  }
+
+  /**
+   * This function checks if the sauna may be switched on.
+   * @param origin the HomeKit controller requesting the start (undefined for a start by the plugin, e.g. a schedule)
+   * @returns a Promise with the reason, if the start is refused (undefined, if the start is allowed)
+   */
+  public checkStart(origin?: RequestOrigin): Promise<string | undefined> {
+    if (origin !== undefined) {
+      const reason = this.checkOrigin(origin, new Date());
+      if (reason !== undefined) {
+        return this.refuse(reason);
+      }
+    }
+    const saunaID = this.saunaConfig.id;
+    return Promise.all([
+      this.doorCheck ? this.sentioAPI.getCharacteristic(saunaID, SaunaCharacteristics.DOOR_OPEN) : Promise.resolve(undefined),
+      this.faultCheck ? this.sentioAPI.getCharacteristic(saunaID, SaunaCharacteristics.FAULT_CODE) : Promise.resolve(undefined),
+    ])
+      .then(([doorOpen, faultCode]) => {
+        // an unknown state is not safe
+        if (this.doorCheck && doorOpen === undefined) {
+          return this.refuse('the state of the cabin door is unknown');
+        }
+        if (doorOpen === true) {
+          return this.refuse('the cabin door is open');
+        }
+        if (this.faultCheck && faultCode === undefined) {
+          return this.refuse('the fault state of the controller is unknown');
+        }
+        const fault = decodeFault(faultCode !== undefined ? faultCode : 0);
+        if (fault !== undefined) {
+          return this.refuse('the controller reports a fault (' + fault.description + ')');
+        }
+        return undefined;
+      });
+  }
+
+  /**
+   * This function limits a heating duration to the maximum runtime.
+   * @param minutes the heating duration in minutes
+   * @returns the limited heating duration
+   */
+  public limitHeatingDuration(minutes: number): number {
+    if (this.maxRuntime > 0 && minutes > this.maxRuntime) {
+      this.log.warn('Heating duration of ' + minutes + ' min exceeds the maximum runtime, limiting it to ' + this.maxRuntime + ' min');
+      return this.maxRuntime;
+    }
+    return minutes;
+  }
+
+  /**
+   * This function starts or stops the safety timer, which switches the sauna off after the maximum runtime
+   * (even if the timer of the controller is misconfigured). The deadline of a running sauna is kept across restarts.
+   * @param active indicates that the sauna is switched on
+   */
+  public watchRuntime(active: boolean) {
+    if (!active || this.maxRuntime <= 0) {
+      this.stop();
+      this.setDeadline(undefined);
+      return;
+    }
+    if (this.runtimeTimer !== undefined) {
+      // already running since the sauna was switched on
+      return;
+    }
+    let deadline = this.deadline;
+    if (deadline === undefined) {
+      deadline = Date.now() + this.maxRuntime * 60000;
+      this.setDeadline(deadline);
+    } else {
+      this.log.info('Keeping the maximum runtime of "' + this.saunaConfig.name + '" until ' + new Date(deadline).toLocaleString());
+    }
+    this.runtimeTimer = setTimeout(this.switchOff.bind(this), Math.max(deadline - Date.now(), 0));
+  }
+
+  /**
+   * This function stops the safety timer (e.g. on a Homebridge shutdown, the deadline is kept).
+   */
+  public stop() {
+    if (this.runtimeTimer !== undefined) {
+      clearTimeout(this.runtimeTimer);
+      this.runtimeTimer = undefined;
+    }
+  }
+
+  /**
+   * This function switches the sauna off after the maximum runtime and retries until the switch-off succeeded.
+   */
+  private switchOff() {
+    this.log.warn('Maximum runtime of ' + this.maxRuntime + ' min reached, switching "' + this.saunaConfig.name + '" off');
+    this.sentioAPI.setCharacterstic(this.saunaConfig.id, SaunaCharacteristics.ACTIVE, false)
+      .then(() => {
+        this.runtimeTimer = undefined;
+        this.setDeadline(undefined);
+      })
+      .catch((error) => {
+        this.log.error('Switching off after the maximum runtime failed, retrying in ' + SWITCH_OFF_RETRY / 60000 + ' min: ' +
+          (error.message ? error.message : error));
+        // not retried, if the timer has been stopped meanwhile
+        if (this.runtimeTimer !== undefined) {
+          this.runtimeTimer = setTimeout(this.switchOff.bind(this), SWITCH_OFF_RETRY);
+        }
+      });
+  }
+
+  /**
+   * This function sets and stores the deadline of the maximum runtime.
+   * @param deadline the time the sauna has to be switched off (undefined, if the sauna is off)
+   */
+  private setDeadline(deadline?: number) {
+    if (deadline === this.deadline) {
+      return;
+    }
+    this.deadline = deadline;
+    const file = this.file;
+    if (file === undefined) {
+      return;
+    }
+    writeJsonFile(file, { deadline })
+      .catch((error) => this.log.error('Saving the maximum runtime failed: ' + error.message));
+  }
+
+  /**
+   * This function checks the controller and the time of a request from HomeKit.
+   * @param origin the HomeKit controller requesting the start
+   * @param now the current time
+   * @returns the reason, if the start is refused (undefined, if the start is allowed)
+   */
+  private checkOrigin(origin: RequestOrigin, now: Date): string | undefined {
+    if (this.trustedControllers.length > 0) {
+      // IPv4 addresses may be reported as IPv6 mapped addresses
+      const address = origin.remoteAddress.replace(/^::ffff:/, '').toLowerCase();
+      const username = (origin.username || '').toLowerCase();
+      if (!this.trustedControllers.includes(address) && !this.trustedControllers.includes(username)) {
+        return 'the controller ' + address + (origin.username !== undefined ? ' (' + origin.username + ')' : '') + ' is not trusted';
+      }
+    }
+    if (this.allowedFrom !== undefined && this.allowedUntil !== undefined) {
+      const minutes = now.getHours() * 60 + now.getMinutes();
+      const allowed = this.allowedFrom <= this.allowedUntil ?
+        minutes >= this.allowedFrom && minutes <= this.allowedUntil :
+        // the allowed hours span midnight
+        minutes >= this.allowedFrom || minutes <= this.allowedUntil;
+      if (!allowed) {
+        return 'a start is only allowed from ' + (this.saunaConfig.allowedFrom || '0:00') + ' until ' +
+          (this.saunaConfig.allowedUntil || '23:59');
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * This function logs a refused start.
+   * @param reason the reason
+   * @returns a Promise with the reason
+   */
+  private refuse(reason: string): Promise<string> {
+    this.log.warn('Refused to switch "' + this.saunaConfig.name + '" on: ' + reason);
+    return Promise.resolve(reason);
+  }
+}
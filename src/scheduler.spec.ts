@@ -0,0 +1,101 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  SaunaScheduler,
+  ScheduledSauna,
+  parseTime,
+} from './scheduler';
+import { HeatUpEstimator } from './heatup';
+import { ScheduleConfig } from './settings';
+import {
+  createLogger,
+  waitForJsonFile,
+} from './testUtils';
+
+describe('SaunaScheduler', () => {
+  const schedule: ScheduleConfig = { name: 'Evening', time: '19:00', targetTemperature: 90, duration: 120 };
+  let directory: string;
+  let file: string;
+  let sauna: ScheduledSauna;
+  let scheduler: SaunaScheduler;
+
+  /**
+   * This function creates and starts a scheduler with the default heat-up rate (1.2 °C/min).
+   * @param enabled the enabled state per schedule name
+   */
+  function startScheduler(enabled: { [name: string]: boolean } = { Evening: true }) {
+    scheduler = new SaunaScheduler(createLogger(), [schedule], enabled, new HeatUpEstimator(createLogger(), { rate: 0, sessions: 0 }),
+      sauna, file);
+    scheduler.start();
+  }
+
+  /**
+   * This function advances the time minute by minute and waits for the checks of the schedules.
+   * @param minutes the minutes to advance
+   */
+  async function advance(minutes: number) {
+    for (let minute = 0; minute < minutes; minute++) {
+      jest.advanceTimersByTime(60000);
+      for (let i = 0; i < 3; i++) {
+        await Promise.resolve();
+      }
+    }
+  }
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'sentiotec-schedules-'));
+    file = path.join(directory, 'sentiotec', 'SN1234-0-schedules.json');
+    sauna = {
+      getCurrentTemperatureValue: jest.fn(() => Promise.resolve(20)),
+      startSchedule: jest.fn(() => Promise.resolve()),
+    };
+    jest.useFakeTimers('modern');
+    jest.setSystemTime(new Date(2021, 5, 4, 17, 45));
+  });
+
+  afterEach(() => {
+    if (scheduler !== undefined) {
+      scheduler.stop();
+    }
+    jest.useRealTimers();
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('parses the time of a schedule', () => {
+    expect(parseTime('7:05')).toEqual({ hours: 7, minutes: 5 });
+    expect(parseTime('24:00')).toBeUndefined();
+    expect(parseTime('19')).toBeUndefined();
+  });
+
+  it('starts the sauna early enough to be ready at the time of the schedule', async () => {
+    startScheduler();
+    // 70 °C at 1.2 °C/min take 59 min plus a margin of 10 min, so the sauna is started at 17:51
+    await advance(5);
+    expect(sauna.startSchedule).not.toHaveBeenCalled();
+    await advance(1);
+    expect(sauna.startSchedule).toHaveBeenCalledWith(schedule, 69 + 120);
+    await advance(10);
+    expect(sauna.startSchedule).toHaveBeenCalledTimes(1);
+    jest.useRealTimers();
+    await expect(waitForJsonFile(file)).resolves.toEqual({ Evening: new Date(2021, 5, 4, 19, 0).getTime() });
+  });
+
+  it('does not start an occurrence again after a restart', async () => {
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    fs.writeFileSync(file, JSON.stringify({ Evening: new Date(2021, 5, 4, 19, 0).getTime() }));
+    jest.setSystemTime(new Date(2021, 5, 4, 18, 0));
+    startScheduler();
+    await advance(30);
+    expect(sauna.startSchedule).not.toHaveBeenCalled();
+  });
+
+  it('does not start a disabled schedule', async () => {
+    startScheduler({});
+    await advance(30);
+    expect(sauna.startSchedule).not.toHaveBeenCalled();
+    scheduler.setEnabled('Evening', true);
+    await advance(1);
+    expect(sauna.startSchedule).toHaveBeenCalledTimes(1);
+  });
+});
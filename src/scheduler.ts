@@ -0,0 +1,228 @@
+import fs from 'fs';
+import { Logger } from 'homebridge';
+import { ScheduleConfig } from './settings';
+import { HeatUpEstimator } from './heatup';
+import { writeJsonFile } from './storage';
+
+/**
+ * the interval in which the schedules are checked (1 min)
+ */
+const SCHEDULE_INTERVAL = 60000;
+/**
+ * the additional preheating time to compensate inaccurate estimations (min)
+ */
+const PREHEAT_MARGIN = 10;
+/**
+ * the temperature assumed, if the current temperature is not known (°C)
+ */
+const DEFAULT_START_TEMPERATURE = 20;
+/**
+ * the weekdays as configured (index as in Date.getDay())
+ */
+const WEEKDAYS = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+
+/**
+ * This interface defines the sauna controlled by the scheduler
+ */
+export interface ScheduledSauna {
+  /**
+   * This function returns the current temperature of the sauna.
+   * @returns a Promise with the current temperature (undefined, if not known)
+   */
+  getCurrentTemperatureValue(): Promise<number | undefined>;
+  /**
+   * This function switches the sauna on.
+   * @param schedule the schedule starting the sauna
+   * @param duration the heating duration in minutes (preheating and usage)
+   * @returns a Promise for the execution
+   */
+  startSchedule(schedule: ScheduleConfig, duration: number): Promise<void>;
+}
+
+/**
+ * This class starts a sauna early enough to be ready at the time of the enabled schedules.
+ */
+export class SaunaScheduler {
+  /**
+   * the valid schedules
+   */
+  private readonly schedules: ScheduleConfig[] = [];
+  /**
+   * the ready time (timestamp) of the last started occurrence per schedule name (stored, so a restart does not start it again)
+   */
+  private readonly lastStarted: { [name: string]: number } = {};
+  /**
+   * the timer checking the schedules
+   */
+  private timer?: NodeJS.Timeout;
+
+  /**
+   * the constructor
+   * @param log the logger to be used
+   * @param schedules the configured schedules
+   * @param enabled the enabled state per schedule name (stored in the accessory context, will be updated in place)
+   * @param estimator the heat-up estimator for the preheating time
+   * @param sauna the sauna to be controlled
+   * @param file the file the last started occurrences are stored in
+   */
+  constructor(
+    private readonly log: Logger,
+    schedules: ScheduleConfig[],
+    private readonly enabled: { [name: string]: boolean },
+    private readonly estimator: HeatUpEstimator,
+    private readonly sauna: ScheduledSauna,
+    private readonly file: string,
+  ) {
+    try {
+      Object.assign(this.lastStarted, JSON.parse(fs.readFileSync(file, 'utf8')));
+    } catch (error) {
+      if (error.code !== 'ENOENT') {
+        this.log.warn('Loading the started schedules from ' + file + ' failed: ' + error.message);
+      }
+    }
+    for (const schedule of schedules) {
+      if (!schedule.name || parseTime(schedule.time) === undefined) {
+        this.log.error('Ignoring schedule "' + schedule.name + '" with invalid time "' + schedule.time + '"');
+        continue;
+      }
+      const invalidDays = (schedule.days || []).filter((day) => !WEEKDAYS.includes(day));
+      if (invalidDays.length > 0) {
+        this.log.error('Ignoring schedule "' + schedule.name + '" with invalid days ' + invalidDays.join(', '));
+        continue;
+      }
+      this.schedules.push(schedule);
+    }
+  }
+
+  /**
+   * This function returns the valid schedules.
+   * @returns the schedules
+   */
+  public getSchedules(): ScheduleConfig[] {
+    return this.schedules;
+  }
+
+  /**
+   * This function returns if a schedule is enabled.
+   * @param name the name of the schedule
+   * @returns true, if the schedule is enabled
+   */
+  public isEnabled(name: string): boolean {
+    return this.enabled[name] === true;
+  }
+
+  /**
+   * This function enables or disables a schedule.
+   * @param name the name of the schedule
+   * @param enabled true to enable the schedule
+   */
+  public setEnabled(name: string, enabled: boolean) {
+    this.log.info((enabled ? 'Enabling' : 'Disabling') + ' schedule "' + name + '"');
+    this.enabled[name] = enabled;
+    if (enabled) {
+      this.check();
+    }
+  }
+
+  /**
+   * This function starts checking the schedules.
+   */
+  public start() {
+    if (this.schedules.length === 0 || this.timer !== undefined) {
+      return;
+    }
+    this.timer = setInterval(this.check.bind(this), SCHEDULE_INTERVAL);
+    this.check();
+  }
+
+  /**
+   * This function stops checking the schedules.
+   */
+  public stop() {
+    if (this.timer !== undefined) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  /**
+   * This function checks if one of the enabled schedules has to be started now.
+   */
+  private check() {
+    const schedules = this.schedules.filter((schedule) => this.isEnabled(schedule.name));
+    if (schedules.length === 0) {
+      return;
+    }
+    this.sauna.getCurrentTemperatureValue()
+      .catch((error) => {
+        this.log.debug('Current temperature for the schedules not available: ' + (error.message ? error.message : error));
+        return undefined;
+      })
+      .then((temperature) => {
+        const now = new Date();
+        for (const schedule of schedules) {
+          const ready = nextOccurrence(schedule, now);
+          const preheat = this.estimator.estimateMinutes(temperature !== undefined ? temperature : DEFAULT_START_TEMPERATURE,
+            schedule.targetTemperature) + PREHEAT_MARGIN;
+          const start = ready.getTime() - preheat * 60000;
+          if (now.getTime() < start || this.lastStarted[schedule.name] === ready.getTime()) {
+            continue;
+          }
+          this.lastStarted[schedule.name] = ready.getTime();
+          this.save();
+          this.log.info('Starting schedule "' + schedule.name + '": ready at ' + schedule.time + ' with ' + schedule.targetTemperature +
+            ' °C (preheating ' + preheat + ' min)');
+          const duration = Math.ceil((ready.getTime() - now.getTime()) / 60000) + schedule.duration;
+          this.sauna.startSchedule(schedule, duration)
+            .catch((error) => {
+              this.log.error('Starting schedule "' + schedule.name + '" failed: ' + (error.message ? error.message : error));
+            });
+        }
+      });
+  }
+
+  /**
+   * This function stores the last started occurrences.
+   */
+  private save() {
+    writeJsonFile(this.file, this.lastStarted)
+      .catch((error) => this.log.error('Saving the started schedules failed: ' + error.message));
+  }
+}
+
+/**
+ * This function parses a time of the day.
+ * @param time the time (HH:MM)
+ * @returns the hours and minutes or undefined, if the time is invalid
+ */
+export function parseTime(time: string): { hours: number; minutes: number } | undefined {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(time || '');
+  if (match === null) {
+    return undefined;
+  }
+  const hours = parseInt(match[1]);
+  const minutes = parseInt(match[2]);
+  if (hours > 23 || minutes > 59) {
+    return undefined;
+  }
+  return { hours, minutes };
+}
+
+/**
+ * This function calculates the next time a schedule should be ready.
+ * @param schedule the schedule
+ * @param now the current time
+ * @returns the next ready time after now
+ */
+function nextOccurrence(schedule: ScheduleConfig, now: Date): Date {
+  const time = parseTime(schedule.time)!;
+  const days = schedule.days !== undefined && schedule.days.length > 0 ? schedule.days : WEEKDAYS;
+  for (let offset = 0; offset <= 7; offset++) {
+    const candidate = new Date(now.getFullYear(), now.getMonth(), now.getDate() + offset, time.hours, time.minutes);
+    if (candidate.getTime() > now.getTime() && days.includes(WEEKDAYS[candidate.getDay()])) {
+      return candidate;
+    }
+  }
+  // not reachable, as every weekday is checked
+  return new Date(now.getTime() + 7 * 24 * 3600000);
+}
@@ -0,0 +1,303 @@
+/**
+ * This is the name of the platform that users will use to register the plugin in the Homebridge config.json
+ */
+export const PLATFORM_NAME = 'Sentiotec Sauna Control Plugin';
+
+/**
+ * This must match the name of your plugin as defined the package.json
+ */
+export const PLUGIN_NAME = 'homebridge-sentiotec-plugin';
+
+/**
+ * This interface defines a schedule to have a sauna ready at a given time
+ */
+export interface ScheduleConfig {
+  /**
+   * the unique name of the schedule (shown as switch in HomeKit)
+   */
+  name: string;
+  /**
+   * the weekdays (mon, tue, wed, thu, fri, sat, sun), every day if empty
+   */
+  days?: string[];
+  /**
+   * the time the sauna should be ready (HH:MM)
+   */
+  time: string;
+  /**
+   * the target temperature
+   */
+  targetTemperature: number;
+  /**
+   * the time in minutes the sauna stays on once it is ready
+   */
+  duration: number;
+}
+
+/**
+ * This interface defines an automation rule evaluated against the current temperature of a sauna
+ */
+export interface RuleConfig {
+  /**
+   * the name of the rule (shown as switch in HomeKit)
+   */
+  name: string;
+  /**
+   * the type of the rule (boost: heat with the maximum temperature until the target is reached, eco: hold a reduced temperature
+   * for some hours and switch off afterwards, heaterCheck: switch off, if the temperature does not rise while heating up)
+   */
+  type: 'boost' | 'eco' | 'heaterCheck';
+  /**
+   * the temperature in °C (boost: the target after the boost, default the target set in HomeKit; eco: the held temperature, default 60)
+   */
+  temperature?: number;
+  /**
+   * the duration of the eco hold in hours (default 2)
+   */
+  hours?: number;
+  /**
+   * the time in minutes the temperature has to rise within while heating up (heaterCheck, default 20)
+   */
+  minutes?: number;
+  /**
+   * the minimum rise of the temperature in °C within that time (heaterCheck, default 1)
+   */
+  minRise?: number;
+}
+
+/**
+ * This interface defines the configuration of a single sauna connected to a Pronet gateway
+ */
+export interface SaunaConfig {
+  /**
+   * the ID of the sauna on the gateway (0 for sauna 1, 1 for sauna 2)
+   */
+  id: number;
+  /**
+   * the name shown in HomeKit
+   */
+  name: string;
+  /**
+   * indicates that the cabin light is exposed as light bulb
+   */
+  light?: boolean;
+  /**
+   * indicates that the ventilation fan is exposed as fan
+   */
+  fan?: boolean;
+  /**
+   * indicates that the auxiliary output is exposed as switch
+   */
+  aux?: boolean;
+  /**
+   * the minimum target temperature in °C (default 50)
+   */
+  minTemperature?: number;
+  /**
+   * the maximum target temperature in °C (default 120)
+   */
+  maxTemperature?: number;
+  /**
+   * the step size of the target temperature in °C (default 1)
+   */
+  temperatureStep?: number;
+  /**
+   * the maximum runtime in minutes after which the plugin switches the sauna off (0 for no limit)
+   */
+  maxRuntime?: number;
+  /**
+   * indicates that a start is refused while the cabin door is open or its state is unknown (default false)
+   */
+  doorCheck?: boolean;
+  /**
+   * indicates that a start is refused while the controller reports a fault or the fault state is unknown (default false)
+   */
+  faultCheck?: boolean;
+  /**
+   * the IP addresses or IDs of the HomeKit controllers (or REST clients, mqtt for MQTT) allowed to start the sauna (all, if empty)
+   */
+  trustedControllers?: string[];
+  /**
+   * the time of the day (HH:MM) from which a start from HomeKit is allowed
+   */
+  allowedFrom?: string;
+  /**
+   * the time of the day (HH:MM) until which a start from HomeKit is allowed
+   */
+  allowedUntil?: string;
+  /**
+   * indicates that critical faults are signalled by a contact sensor (default true, only shown with the unverified addresses)
+   */
+  faultSensor?: boolean;
+  /**
+   * the sensor signalling that the sauna is ready (none, occupancy or contact)
+   */
+  readySensor?: string;
+  /**
+   * the tolerance in °C below the target temperature for the sauna to be ready
+   */
+  readyTolerance?: number;
+  /**
+   * the power of the heater in W for the estimation of the energy consumption (0 if unknown)
+   */
+  heaterPower?: number;
+  /**
+   * indicates that the Eve history is recorded (default true)
+   */
+  history?: boolean;
+  /**
+   * the schedules of the sauna
+   */
+  schedules?: ScheduleConfig[];
+  /**
+   * the automation rules
+   */
+  rules?: RuleConfig[];
+}
+
+/**
+ * This interface defines the recording of the frames of a Pronet gateway
+ */
+export interface RecordingConfig {
+  /**
+   * indicates that all frames are recorded
+   */
+  enabled?: boolean;
+  /**
+   * the path of the capture file (default sentiotec-frames-<ip>.jsonl in the Homebridge storage path)
+   */
+  file?: string;
+  /**
+   * the maximum size of the capture file in kB before it is rotated (default 1024)
+   */
+  maxSize?: number;
+  /**
+   * the number of rotated capture files kept (default 3)
+   */
+  maxFiles?: number;
+}
+
+/**
+ * This interface defines the configuration of a Pronet gateway
+ */
+export interface GatewayConfig {
+  /**
+   * the Pronet serial number
+   */
+  serial: string;
+  /**
+   * the Pronet IP
+   */
+  ip: string;
+  /**
+   * the port of the Pronet websocket (default 17001)
+   */
+  port?: number;
+  /**
+   * the Origin header sent when connecting (default the address of the Pronet)
+   */
+  origin?: string;
+  /**
+   * the user logging in (default root)
+   */
+  username?: string;
+  /**
+   * the sauna password (in cleartext)
+   */
+  password?: string;
+  /**
+   * the MD5 hash of the sauna password (instead of the cleartext)
+   */
+  passwordHash?: string;
+  /**
+   * indicates that the websocket is secured by TLS (wss), e.g. by a TLS proxy in front of the Pronet
+   */
+  tls?: boolean;
+  /**
+   * the path of a PEM file with the CA certificates trusted for wss (default the system CAs)
+   */
+  ca?: string;
+  /**
+   * the SHA-256 fingerprint of the certificate pinned for wss
+   */
+  fingerprint?: string;
+  /**
+   * indicates that the connection should be kept open
+   */
+  persistent?: boolean;
+  /**
+   * the maximum age in seconds of the last known values shown while the gateway is unreachable (default 300)
+   */
+  maxValueAge?: number;
+  /**
+   * the recording of all frames for bug reports (disabled by default)
+   */
+  recording?: RecordingConfig;
+  /**
+   * the capture file replayed instead of connecting to the gateway (for debugging)
+   */
+  replay?: string;
+  /**
+   * indicates that the addresses not verified on a real controller are used (e.g. light, fan, vaporizer, door and fault code,
+   * disabled by default)
+   */
+  unverifiedAddresses?: boolean;
+  /**
+   * the saunas connected to this gateway
+   */
+  saunas: SaunaConfig[];
+}
+
+/**
+ * This interface defines the configuration of the MQTT bridge
+ */
+export interface MqttConfig {
+  /**
+   * the URL of the broker (e.g. mqtt://192.168.1.10:1883)
+   */
+  url: string;
+  /**
+   * the user at the broker
+   */
+  username?: string;
+  /**
+   * the password at the broker
+   */
+  password?: string;
+  /**
+   * the prefix of all topics (default sentiotec)
+   */
+  topic?: string;
+}
+
+/**
+ * This interface defines the configuration of the REST API
+ */
+export interface RestConfig {
+  /**
+   * the port to listen on
+   */
+  port: number;
+  /**
+   * the address to listen on (default 127.0.0.1, only local requests)
+   */
+  host?: string;
+  /**
+   * the token expected as bearer token in every request
+   */
+  token: string;
+}
+
+/**
+ * This interface defines the configuration of the metrics endpoint (Prometheus) and the health endpoint
+ */
+export interface MetricsConfig {
+  /**
+   * the port to listen on
+   */
+  port: number;
+  /**
+   * the address to listen on (default 127.0.0.1, only local requests)
+   */
+  host?: string;
+}
@@ -0,0 +1,103 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  ThermoHistory,
+  UsageStatistics,
+} from './statistics';
+import { createLogger } from './testUtils';
+
+describe('UsageStatistics', () => {
+  let directory: string;
+  let file: string;
+  let now: number;
+
+  /**
+   * This function advances the mocked time.
+   * @param minutes the minutes to advance
+   */
+  function advance(minutes: number) {
+    now += minutes * 60000;
+  }
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'sentiotec-'));
+    file = path.join(directory, 'sentiotec', 'SN1234-0.json');
+    now = Date.UTC(2021, 5, 1, 18, 0);
+    jest.spyOn(Date, 'now').mockImplementation(() => now);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('records a session with the heater on-time and the energy', async () => {
+    const statistics = new UsageStatistics(createLogger(), file, 9000, true);
+    statistics.addTemperature(20);
+    statistics.setActive(true);
+    statistics.setHeating(true);
+    expect(statistics.getPower()).toBe(9000);
+    advance(40);
+    statistics.addTemperature(80);
+    statistics.setHeating(false);
+    expect(statistics.getPower()).toBe(0);
+    expect(statistics.getTotalEnergy()).toBeCloseTo(6);
+    advance(20);
+    statistics.setHeating(true);
+    advance(10);
+    statistics.setActive(false);
+
+    const data = statistics.getData();
+    expect(data).toMatchObject({ sessions: 1, runtime: 70, heatingTime: 50, energy: 7.5 });
+    expect(data.recentSessions[0]).toMatchObject({ runtime: 70, heatingTime: 50, maxTemperature: 80, temperatures: [[0, 20], [40, 80]] });
+  });
+
+  it('stores the statistics and loads them again', async () => {
+    const statistics = new UsageStatistics(createLogger(), file, 6000, true);
+    statistics.setActive(true);
+    statistics.setHeating(true);
+    advance(30);
+    statistics.setActive(false);
+    await statistics.save();
+
+    const loaded = new UsageStatistics(createLogger(), file, 6000, true);
+    expect(loaded.getData()).toMatchObject({ sessions: 1, runtime: 30, energy: 3 });
+    expect(loaded.getTotalEnergy()).toBe(3);
+  });
+
+  it('uses the runtime as heater on-time without the heater relay', () => {
+    const history: ThermoHistory = { addEntry: jest.fn() };
+    const statistics = new UsageStatistics(createLogger(), file, 6000, false, history);
+    statistics.addTemperature(20);
+    statistics.setActive(true);
+    expect(statistics.getPower()).toBe(6000);
+    statistics.setHeating(false);
+    advance(30);
+    expect(statistics.getTotalEnergy()).toBeCloseTo(3);
+    statistics.setActive(false);
+    expect(statistics.getPower()).toBe(0);
+    expect(statistics.getData()).toMatchObject({ sessions: 1, runtime: 30, heatingTime: 30, energy: 3 });
+    expect((history.addEntry as jest.Mock).mock.calls.map((call) => call[0].valvePosition)).toEqual([0, 100, 0]);
+  });
+
+  it('fills the Eve history on changes and periodically', () => {
+    const history: ThermoHistory = { addEntry: jest.fn() };
+    const statistics = new UsageStatistics(createLogger(), file, 0, true, history);
+    statistics.addTemperature(20);
+    statistics.setTarget(90);
+    statistics.setActive(true);
+    statistics.setHeating(true);
+    advance(1);
+    // too early for an entry without a change
+    statistics.addTemperature(22);
+    advance(10);
+    statistics.addTemperature(35);
+    expect((history.addEntry as jest.Mock).mock.calls.map((call) => call[0])).toEqual([
+      { time: now / 1000 - 660, currentTemp: 20, setTemp: 0, valvePosition: 0 },
+      { time: now / 1000 - 660, currentTemp: 20, setTemp: 90, valvePosition: 0 },
+      { time: now / 1000 - 660, currentTemp: 20, setTemp: 90, valvePosition: 100 },
+      { time: now / 1000, currentTemp: 35, setTemp: 90, valvePosition: 100 },
+    ]);
+  });
+});
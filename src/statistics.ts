@@ -0,0 +1,328 @@
+import fs from 'fs';
+import { Logger } from 'homebridge';
+import { writeJsonFile } from './storage';
+
+/**
+ * the number of sessions kept in detail
+ */
+const MAX_SESSIONS = 100;
+/**
+ * the minimum interval between two temperature samples of a session (1 min)
+ */
+const TEMPERATURE_SAMPLE_INTERVAL = 60000;
+/**
+ * the minimum interval between two history entries without a change of the state (10 min)
+ */
+const HISTORY_INTERVAL = 600000;
+
+/**
+ * This interface defines a finished sauna session
+ */
+export interface UsageSession {
+  /**
+   * the start of the session (ms since epoch)
+   */
+  start: number;
+  /**
+   * the end of the session (ms since epoch)
+   */
+  end: number;
+  /**
+   * the runtime in minutes
+   */
+  runtime: number;
+  /**
+   * the time the heater has been switched on in minutes
+   */
+  heatingTime: number;
+  /**
+   * the estimated energy consumption in kWh
+   */
+  energy: number;
+  /**
+   * the maximum temperature reached
+   */
+  maxTemperature?: number;
+  /**
+   * the temperatures over time (minutes since the start, temperature)
+   */
+  temperatures: [number, number][];
+}
+
+/**
+ * This interface defines the usage statistics of a sauna, which are stored under the Homebridge storage path
+ */
+export interface UsageData {
+  /**
+   * the number of sessions
+   */
+  sessions: number;
+  /**
+   * the total runtime in minutes
+   */
+  runtime: number;
+  /**
+   * the total time the heater has been switched on in minutes
+   */
+  heatingTime: number;
+  /**
+   * the total estimated energy consumption in kWh
+   */
+  energy: number;
+  /**
+   * the most recent sessions
+   */
+  recentSessions: UsageSession[];
+}
+
+/**
+ * This interface defines the Eve history of a thermostat (provided by fakegato-history)
+ */
+export interface ThermoHistory {
+  /**
+   * This function adds an entry to the history.
+   * @param entry the time (sec since epoch), the current and the target temperature and the valve position (heater in percent)
+   */
+  addEntry(entry: { time: number; currentTemp: number; setTemp: number; valvePosition: number }): void;
+}
+
+/**
+ * This class records the sessions of a sauna and estimates the energy consumption from the power of the heater. The on-time of the
+ * heater is taken from the heater relay; if its state is not read, the heater is assumed to be on for the whole runtime.
+ */
+export class UsageStatistics {
+  /**
+   * the stored statistics
+   */
+  private readonly data: UsageData;
+  /**
+   * the running session
+   */
+  private session?: { start: number; temperatures: [number, number][]; maxTemperature?: number; lastSample: number };
+  /**
+   * indicates that the sauna is switched on
+   */
+  private active = false;
+  /**
+   * the start of the current heater on-time (undefined, if the heater is off)
+   */
+  private heatingSince?: number;
+  /**
+   * the heater on-time of the running session in ms (without the current on-time)
+   */
+  private heatingTime = 0;
+  /**
+   * the last current temperature
+   */
+  private temperature?: number;
+  /**
+   * the current target temperature
+   */
+  private target?: number;
+  /**
+   * the time of the last history entry
+   */
+  private lastHistoryEntry = 0;
+
+  /**
+   * the constructor
+   * @param log the logger to be used
+   * @param file the file the statistics are stored in
+   * @param heaterPower the power of the heater in W (0, if unknown)
+   * @param heaterRelay indicates that the state of the heater relay is read (otherwise the runtime is used as on-time)
+   * @param history the Eve history to be filled (if any)
+   */
+  constructor(private readonly log: Logger, private readonly file: string, private readonly heaterPower: number,
+    private readonly heaterRelay: boolean, private readonly history?: ThermoHistory) {
+    this.data = { sessions: 0, runtime: 0, heatingTime: 0, energy: 0, recentSessions: [] };
+    try {
+      Object.assign(this.data, JSON.parse(fs.readFileSync(file, 'utf8')));
+    } catch (error) {
+      if (error.code !== 'ENOENT') {
+        this.log.warn('Loading the usage statistics from ' + file + ' failed: ' + error.message);
+      }
+    }
+  }
+
+  /**
+   * This function returns the stored statistics.
+   * @returns the statistics (without the running session)
+   */
+  public getData(): UsageData {
+    return this.data;
+  }
+
+  /**
+   * This function returns the estimated current power consumption.
+   * @returns the power in W
+   */
+  public getPower(): number {
+    return this.active && this.heatingSince !== undefined ? this.heaterPower : 0;
+  }
+
+  /**
+   * This function returns the estimated total energy consumption (including the running session).
+   * @returns the energy in kWh
+   */
+  public getTotalEnergy(): number {
+    return this.data.energy + this.toEnergy(this.getHeatingTime());
+  }
+
+  /**
+   * This function records the on/off state of the sauna and starts or finishes a session.
+   * @param active indicates that the sauna is switched on
+   */
+  public setActive(active: boolean) {
+    if (active === this.active) {
+      return;
+    }
+    const now = Date.now();
+    if (active) {
+      this.active = true;
+      this.heatingTime = 0;
+      if (this.heatingSince !== undefined || !this.heaterRelay) {
+        this.heatingSince = now;
+      }
+      this.session = { start: now, temperatures: [], lastSample: 0 };
+      this.addTemperature(this.temperature);
+    } else {
+      this.finishSession(now);
+      this.active = false;
+      if (!this.heaterRelay) {
+        this.heatingSince = undefined;
+      }
+    }
+    this.addHistoryEntry(true);
+  }
+
+  /**
+   * This function records the state of the heater relay.
+   * @param heating indicates that the heater is switched on
+   */
+  public setHeating(heating: boolean) {
+    if (!this.heaterRelay || heating === (this.heatingSince !== undefined)) {
+      return;
+    }
+    const now = Date.now();
+    if (heating) {
+      this.heatingSince = now;
+    } else {
+      if (this.active) {
+        this.heatingTime += now - this.heatingSince!;
+      }
+      this.heatingSince = undefined;
+    }
+    this.addHistoryEntry(true);
+  }
+
+  /**
+   * This function records the target temperature.
+   * @param target the target temperature
+   */
+  public setTarget(target: number) {
+    // the target is only shown while the sauna is switched on
+    const changed = target !== this.target && this.active;
+    this.target = target;
+    this.addHistoryEntry(changed);
+  }
+
+  /**
+   * This function records a current temperature.
+   * @param temperature the current temperature (ignored, if undefined)
+   */
+  public addTemperature(temperature?: number) {
+    if (temperature === undefined) {
+      return;
+    }
+    this.temperature = temperature;
+    const now = Date.now();
+    if (this.session !== undefined) {
+      if (this.session.maxTemperature === undefined || temperature > this.session.maxTemperature) {
+        this.session.maxTemperature = temperature;
+      }
+      if (now - this.session.lastSample >= TEMPERATURE_SAMPLE_INTERVAL) {
+        this.session.temperatures.push([Math.round((now - this.session.start) / 6000) / 10, temperature]);
+        this.session.lastSample = now;
+      }
+    }
+    this.addHistoryEntry(false);
+  }
+
+  /**
+   * This function stores the statistics.
+   * @returns a Promise for the execution
+   */
+  public save(): Promise<void> {
+    return writeJsonFile(this.file, this.data);
+  }
+
+  /**
+   * This function finishes the running session and stores it.
+   * @param now the end of the session
+   */
+  private finishSession(now: number) {
+    if (this.session === undefined) {
+      return;
+    }
+    const heatingTime = this.getHeatingTime(now);
+    const session: UsageSession = {
+      start: this.session.start,
+      end: now,
+      runtime: Math.round((now - this.session.start) / 60000),
+      heatingTime: Math.round(heatingTime / 60000),
+      energy: this.toEnergy(heatingTime),
+      maxTemperature: this.session.maxTemperature,
+      temperatures: this.session.temperatures,
+    };
+    this.session = undefined;
+    this.heatingTime = 0;
+    this.data.sessions++;
+    this.data.runtime += session.runtime;
+    this.data.heatingTime += session.heatingTime;
+    this.data.energy += session.energy;
+    this.data.recentSessions = this.data.recentSessions.concat(session).slice(-MAX_SESSIONS);
+    this.log.info('Sauna session finished after ' + session.runtime + ' min (heater on for ' + session.heatingTime + ' min' +
+      (this.heaterPower > 0 ? ', about ' + session.energy.toFixed(2) + ' kWh' : '') + ')');
+    this.save()
+      .catch((error) => this.log.error('Saving the usage statistics failed: ' + error.message));
+  }
+
+  /**
+   * This function returns the heater on-time of the running session.
+   * @param now the current time
+   * @returns the on-time in ms
+   */
+  private getHeatingTime(now: number = Date.now()): number {
+    if (!this.active) {
+      return 0;
+    }
+    return this.heatingTime + (this.heatingSince !== undefined ? now - this.heatingSince : 0);
+  }
+
+  /**
+   * This function converts a heater on-time into the energy consumption.
+   * @param heatingTime the on-time in ms
+   * @returns the energy in kWh
+   */
+  private toEnergy(heatingTime: number): number {
+    return this.heaterPower * heatingTime / 3600000000;
+  }
+
+  /**
+   * This function adds an entry to the Eve history.
+   * @param changed indicates that the state has changed (otherwise the entry is only added after the history interval)
+   */
+  private addHistoryEntry(changed: boolean) {
+    const now = Date.now();
+    if (this.history === undefined || this.temperature === undefined || (!changed && now - this.lastHistoryEntry < HISTORY_INTERVAL)) {
+      return;
+    }
+    this.lastHistoryEntry = now;
+    this.history.addEntry({
+      time: Math.round(now / 1000),
+      currentTemp: this.temperature,
+      setTemp: this.active && this.target !== undefined ? this.target : 0,
+      valvePosition: this.active && this.heatingSince !== undefined ? 100 : 0,
+    });
+  }
+}
@@ -0,0 +1,19 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { writeJsonFile } from './storage';
+
+describe('writeJsonFile', () => {
+  it('creates the directory and replaces the file without leaving temporary files', async () => {
+    const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'sentiotec-storage-'));
+    const file = path.join(directory, 'sentiotec', 'SN1234-0.json');
+    try {
+      await writeJsonFile(file, { deadline: 1 });
+      await Promise.all([writeJsonFile(file, { deadline: 2 }), writeJsonFile(file, { deadline: 2 })]);
+      expect(JSON.parse(fs.readFileSync(file, 'utf8'))).toEqual({ deadline: 2 });
+      expect(fs.readdirSync(path.dirname(file))).toEqual(['SN1234-0.json']);
+    } finally {
+      fs.rmSync(directory, { recursive: true, force: true });
+    }
+  });
+});
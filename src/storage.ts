@@ -0,0 +1,39 @@
+import fs from 'fs';
+import path from 'path';
+
+/**
+ * the number of files written by this process (makes the names of the temporary files unique)
+ */
+let writeCount = 0;
+
+/**
+ * This function stores a value as JSON file. The value is written to a temporary file, which then replaces the file,
+ * so that the file is never read while it is partially written (e.g. after a crash or by a concurrent reader).
+ * @param file the file (its directory is created, if needed)
+ * @param value the value to be stored
+ * @returns a Promise for the execution
+ */
+export function writeJsonFile(file: string, value: unknown): Promise<void> {
+  return new Promise((resolve, reject) => {
+    fs.mkdir(path.dirname(file), { recursive: true }, (error) => {
+      if (error) {
+        reject(error);
+        return;
+      }
+      const temporaryFile = file + '.' + process.pid + '-' + (++writeCount) + '.tmp';
+      fs.writeFile(temporaryFile, JSON.stringify(value), (writeError) => {
+        if (writeError) {
+          reject(writeError);
+          return;
+        }
+        fs.rename(temporaryFile, file, (renameError) => {
+          if (renameError) {
+            fs.unlink(temporaryFile, () => reject(renameError));
+          } else {
+            resolve();
+          }
+        });
+      });
+    });
+  });
+}
@@ -0,0 +1,59 @@
+import fs from 'fs';
+import { Logger } from 'homebridge';
+
+/**
+ * This function creates a logger, which records all messages.
+ * @returns the logger with jest mock functions
+ */
+export function createLogger(): Logger {
+  return {
+    prefix: 'test',
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    debug: jest.fn(),
+    log: jest.fn(),
+  } as unknown as Logger;
+}
+
+/**
+ * This function waits until a condition is fulfilled.
+ * @param condition the condition
+ * @param timeout the maximum time to wait
+ * @returns a Promise that resolves as soon as the condition is fulfilled
+ */
+export function waitFor(condition: () => boolean, timeout = 5000): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const start = Date.now();
+    const check = () => {
+      if (condition()) {
+        resolve();
+      } else if (Date.now() - start > timeout) {
+        reject(new Error('Condition not fulfilled in time'));
+      } else {
+        setTimeout(check, 20);
+      }
+    };
+    check();
+  });
+}
+
+/**
+ * This function waits until a JSON file has been written completely.
+ * @param file the file
+ * @param timeout the maximum time to wait
+ * @returns a Promise with the parsed content of the file
+ */
+export function waitForJsonFile(file: string, timeout = 5000): Promise<unknown> {
+  let content: unknown;
+  return waitFor(() => {
+    try {
+      content = JSON.parse(fs.readFileSync(file, 'utf8'));
+      return true;
+    } catch (error) {
+      // not written yet
+      return false;
+    }
+  }, timeout)
+    .then(() => content);
+}
@@ -0,0 +1,226 @@
+import {
+  SentiotecAPI,
+  hashPassword,
+} from './websocket';
+import { SaunaCharacteristics } from './characteristics';
+import { MockPronetGateway } from './mockGateway';
+import {
+  createLogger,
+  waitFor,
+} from './testUtils';
+
+describe('SentiotecAPI', () => {
+  let gateway: MockPronetGateway;
+  let port: number;
+  let api: SentiotecAPI;
+
+  /**
+   * This function creates the API connected to the mock gateway.
+   * @param options additional gateway options
+   */
+  function createAPI(options: { password?: string; persistent?: boolean; unverifiedAddresses?: boolean } = {}): SentiotecAPI {
+    api = new SentiotecAPI(createLogger(), {
+      ip: '127.0.0.1',
+      port,
+      serial: 'SN1234',
+      password: options.password || 'sentiotec',
+      persistent: options.persistent,
+      unverifiedAddresses: options.unverifiedAddresses,
+      saunas: [{ id: 0, name: 'Sauna' }],
+    });
+    return api;
+  }
+
+  beforeEach(async () => {
+    gateway = new MockPronetGateway({ serial: 'SN1234', password: 'sentiotec' });
+    port = await gateway.start();
+  });
+
+  afterEach(async () => {
+    if (api !== undefined) {
+      api.stop();
+    }
+    await gateway.stop();
+  });
+
+  it('returns typed values from the update of all characteristics', async () => {
+    createAPI();
+    await expect(api.getCharacteristic(0, SaunaCharacteristics.CURRENT_TEMPERATURE)).resolves.toBe(21.5);
+    await expect(api.getCharacteristic(0, SaunaCharacteristics.TARGET_TEMPERATURE)).resolves.toBe(90);
+    await expect(api.getCharacteristic(0, SaunaCharacteristics.ACTIVE)).resolves.toBe(false);
+    await expect(api.getCharacteristic(0, SaunaCharacteristics.FIRMWARE)).resolves.toBe('2.1.0');
+    expect(api.isConnected(0)).toBe(true);
+    expect(api.isConnected(1)).toBe(false);
+  });
+
+  it('serves further requests from the cache', async () => {
+    createAPI();
+    await api.getCharacteristic(0, SaunaCharacteristics.CURRENT_TEMPERATURE);
+    await api.getCharacteristic(0, SaunaCharacteristics.TARGET_TEMPERATURE);
+    expect(gateway.connectionCount).toBe(1);
+  });
+
+  it('logs in with a configured user and password hash', async () => {
+    await gateway.stop();
+    gateway = new MockPronetGateway({ serial: 'SN1234', password: 'sentiotec', user: 'service' });
+    port = await gateway.start();
+    api = new SentiotecAPI(createLogger(), {
+      ip: '127.0.0.1',
+      port,
+      serial: 'SN1234',
+      username: 'service',
+      passwordHash: hashPassword('sentiotec').toUpperCase(),
+      saunas: [{ id: 0, name: 'Sauna' }],
+    });
+    await expect(api.getCharacteristic(0, SaunaCharacteristics.TARGET_TEMPERATURE)).resolves.toBe(90);
+  });
+
+  it('rejects a wrong password', async () => {
+    createAPI({ password: 'wrong' });
+    await expect(api.getCharacteristic(0, SaunaCharacteristics.ACTIVE)).rejects.toThrow('Authentication unsuccessful');
+  });
+
+  it('rejects a refused authentication', async () => {
+    gateway.faults.rejectAuth = true;
+    createAPI();
+    await expect(api.getCharacteristic(0, SaunaCharacteristics.ACTIVE)).rejects.toThrow('Authentication unsuccessful');
+  });
+
+  it('rejects an incomplete update of all characteristics', async () => {
+    gateway.faults.partialUpdate = 10;
+    createAPI();
+    await expect(api.getCharacteristic(0, SaunaCharacteristics.ACTIVE)).rejects.toThrow('timeout, the last value of the update (183/1/47)');
+  }, 10000);
+
+  it('reports unknown controller models and untested firmware versions once', async () => {
+    gateway.setValue(0, 21, '3.0.4');
+    gateway.setValue(0, 22, 'Pro X');
+    const log = createLogger();
+    api = new SentiotecAPI(log, { ip: '127.0.0.1', port, serial: 'SN1234', password: 'sentiotec', persistent: true, saunas: [],
+      unverifiedAddresses: true });
+    const controllers: unknown[][] = [];
+    api.on('controller', (...args) => controllers.push(args));
+    api.start();
+    await waitFor(() => api.getState() === 'ready' && controllers.length === 1);
+    expect(controllers).toEqual([[0, 'Pro X', '3.0.4']]);
+    expect(api.getProfile().name).toBe('pronet');
+    expect(log.warn).toHaveBeenCalledWith(expect.stringContaining('controller model "Pro X" of sauna 0'));
+    expect(log.warn).toHaveBeenCalledWith(expect.stringContaining('firmware 3.0.4 of sauna 0'));
+    // the same controller after a reconnection
+    gateway.dropConnections();
+    await waitFor(() => gateway.connectionCount === 2 && api.getState() === 'ready');
+    await api.getValues();
+    expect(controllers).toHaveLength(1);
+    expect((log.warn as jest.Mock).mock.calls.filter(([message]) => message.includes('is not known'))).toHaveLength(1);
+  });
+
+  it('sends writes to the gateway', async () => {
+    createAPI();
+    await api.setCharacterstic(0, SaunaCharacteristics.TARGET_TEMPERATURE, 85);
+    await api.setCharacterstic(0, SaunaCharacteristics.ACTIVE, true);
+    await waitFor(() => gateway.writes.length === 2);
+    expect(gateway.writes).toEqual([
+      { addr: '183/0/2', value: 85 },
+      { addr: '183/0/1', value: 1 },
+    ]);
+  });
+
+  it('returns the value confirmed by the controller', async () => {
+    createAPI();
+    await expect(api.setCharacterstic(0, SaunaCharacteristics.TARGET_TEMPERATURE, 85)).resolves.toBe(85);
+    gateway.faults.clampWrites = 100;
+    await expect(api.setCharacterstic(0, SaunaCharacteristics.TARGET_TEMPERATURE, 110)).resolves.toBe(100);
+    gateway.faults.rejectWrites = true;
+    await expect(api.setCharacterstic(0, SaunaCharacteristics.TARGET_TEMPERATURE, 60)).resolves.toBe(100);
+  });
+
+  it('retries writes that are not confirmed by the controller', async () => {
+    gateway.faults.ignoreWrites = true;
+    createAPI();
+    await expect(api.setCharacterstic(0, SaunaCharacteristics.ACTIVE, true)).rejects.toThrow('not confirmed');
+    expect(gateway.writes).toHaveLength(3);
+  }, 10000);
+
+  it('rejects writes to read-only characteristics and out of range values without contacting the gateway', async () => {
+    createAPI();
+    await expect(api.setCharacterstic(0, SaunaCharacteristics.CURRENT_TEMPERATURE, 50)).rejects.toThrow('read-only');
+    await expect(api.setCharacterstic(0, SaunaCharacteristics.TARGET_TEMPERATURE, 200)).rejects.toThrow('out of range');
+    // unverified addresses are only written if enabled
+    expect(api.isWritable(SaunaCharacteristics.LIGHT)).toBe(false);
+    await expect(api.setCharacterstic(0, SaunaCharacteristics.LIGHT, true)).rejects.toThrow('has not been verified');
+    expect(gateway.connectionCount).toBe(0);
+  });
+
+  it('shares one update between concurrent requests', async () => {
+    const requests: string[] = [];
+    gateway.on('message', (message) => requests.push(message.cmd));
+    createAPI({ unverifiedAddresses: true });
+    const values = await Promise.all([
+      api.getCharacteristic(0, SaunaCharacteristics.CURRENT_TEMPERATURE),
+      api.getCharacteristic(0, SaunaCharacteristics.TARGET_TEMPERATURE),
+      api.setCharacterstic(0, SaunaCharacteristics.LIGHT, true),
+    ]);
+    expect(values).toEqual([21.5, 90, true]);
+    expect(gateway.connectionCount).toBe(1);
+    expect(requests.filter((cmd) => cmd === 'cmd_request_update_all')).toHaveLength(1);
+  });
+
+  it('reports the connection state', async () => {
+    createAPI();
+    const states: string[] = [];
+    api.on('state', (state) => states.push(state));
+    expect(api.getState()).toBe('disconnected');
+    await api.getCharacteristic(0, SaunaCharacteristics.ACTIVE);
+    expect(states).toEqual(['connecting', 'authenticating', 'ready']);
+    api.stop();
+    expect(states).toEqual(['connecting', 'authenticating', 'ready', 'closing', 'disconnected']);
+  });
+
+  it('rejects all waiting requests on an authentication timeout', async () => {
+    gateway.faults.ignoreAuth = true;
+    createAPI();
+    const requests = [
+      api.getCharacteristic(0, SaunaCharacteristics.ACTIVE),
+      api.setCharacterstic(0, SaunaCharacteristics.ACTIVE, true),
+    ];
+    await expect(requests[0]).rejects.toThrow('Authentication timed out');
+    await expect(requests[1]).rejects.toThrow('Authentication timed out');
+    expect(api.getState()).toBe('disconnected');
+  }, 10000);
+
+  describe('in persistent mode', () => {
+    it('pushes values changed by the gateway', async () => {
+      createAPI({ persistent: true });
+      const updates: unknown[] = [];
+      api.on('update', (saunaID, characteristic, value) => {
+        if (saunaID === 0 && characteristic === SaunaCharacteristics.CURRENT_TEMPERATURE) {
+          updates.push(value);
+        }
+      });
+      api.start();
+      await waitFor(() => updates.length === 1);
+      gateway.setValue(0, SaunaCharacteristics.CURRENT_TEMPERATURE.id, '35.5');
+      await waitFor(() => updates.length === 2);
+      expect(updates).toEqual([21.5, 35.5]);
+      await expect(api.getCharacteristic(0, SaunaCharacteristics.CURRENT_TEMPERATURE)).resolves.toBe(35.5);
+    });
+
+    it('reconnects after the connection has been dropped', async () => {
+      createAPI({ persistent: true });
+      const updates: unknown[] = [];
+      api.on('update', (saunaID, characteristic, value) => {
+        if (saunaID === 0 && characteristic === SaunaCharacteristics.ACTIVE) {
+          updates.push(value);
+        }
+      });
+      api.start();
+      await waitFor(() => updates.length === 1);
+      gateway.dropConnections();
+      // changed while the connection is down
+      gateway.setValue(0, SaunaCharacteristics.ACTIVE.id, '1');
+      await waitFor(() => updates.length === 2);
+      expect(gateway.connectionCount).toBe(2);
+      expect(updates).toEqual([false, true]);
+    });
+  });
+});
@@ -1,9 +1,28 @@
+import fs from 'fs';
 import WebSocket from 'ws';
+import { TLSSocket } from 'tls';
+import { IncomingMessage } from 'http';
+import { EventEmitter } from 'events';
 import { Md5 } from 'ts-md5/dist/md5';
 import {
   Logger,
-  AccessoryConfig,
 } from 'homebridge';
+import {
+  GatewayConfig,
+} from './settings';
+import {
+  SaunaCharacteristic,
+  SaunaCharacteristics,
+  SaunaValue,
+  findCharacteristic,
+} from './characteristics';
+import {
+  CONTROLLER_PROFILES,
+  ControllerProfile,
+  PRONET,
+  detectProfile,
+  isTestedFirmware,
+} from './controllers';
 /**
  *  the timeout for an operation on the websocket (5 sec)
  */
@@ -17,42 +36,263 @@ const WEBSOCKET_TIMEOUT = 60000;
  */
 const DATA_VALID_TIMEOUT = 30000;
 /**
- * This interface defines a sauna characteristic
+ * the interval in which the liveness of a persistent connection is checked (30 sec)
+ */
+const HEARTBEAT_INTERVAL = 30000;
+/**
+ * the time without any frame or pong after which a persistent connection is considered dead (75 sec)
+ */
+const HEARTBEAT_TIMEOUT = 75000;
+/**
+ * the initial delay before reconnecting a dropped persistent connection (1 sec)
+ */
+const RECONNECT_MIN_DELAY = 1000;
+/**
+ * the maximum delay between two reconnection attempts (5 min)
+ */
+const RECONNECT_MAX_DELAY = 300000;
+/**
+ * the default port of the Pronet websocket
+ */
+export const DEFAULT_PORT = PRONET.port;
+/**
+ * the time to wait for the controller to echo a written value (2 sec)
+ */
+const WRITE_TIMEOUT = 2000;
+/**
+ * the number of retries of a write that has not been confirmed by the controller
+ */
+const WRITE_RETRIES = 2;
+/**
+ * the user logging in, if none is configured
+ */
+const DEFAULT_USERNAME = 'root';
+
+/**
+ * This function returns the headers needed to open a websocket to a Pronet gateway.
+ * @param ip the IP of the gateway
+ * @param origin the Origin header (default the address of the gateway, as sent by its web interface)
+ * @returns the headers
  */
-export interface SaunaCharacteristic{
+export function createHeaders(ip: string, origin?: string): { [key: string]: string } {
+  return {
+    'Origin': origin || 'http://' + ip,
+    'Sec-WebSocket-Extensions': 'permessage-deflate; client_max_window_bits',
+    'Sec-WebSocket-Version': '13',
+  };
+}
+
+/**
+ * This function hashes a password as expected by the Pronet gateway.
+ * @param password the password in cleartext
+ * @returns the MD5 hash (hex)
+ */
+export function hashPassword(password: string): string {
+  return Md5.hashStr(password, false) as string;
+}
+
+/**
+ * This function returns the hash of the configured password (a configured hash is preferred, so the cleartext is not needed).
+ * @param config the gateway configuration
+ * @returns the MD5 hash (hex) or undefined, if neither a password nor a hash is configured
+ */
+export function getPasswordHash(config: GatewayConfig): string | undefined {
+  if (config.passwordHash) {
+    return config.passwordHash.toLowerCase();
+  }
+  return config.password ? hashPassword(config.password) : undefined;
+}
+
+/**
+ * This function normalizes a certificate fingerprint (SHA-256, hex with or without colons).
+ * @param fingerprint the fingerprint
+ * @returns the fingerprint in upper case without colons
+ */
+function normalizeFingerprint(fingerprint: string): string {
+  return fingerprint.replace(/[^0-9a-f]/gi, '').toUpperCase();
+}
+
+/**
+ * This interface defines the transport to the gateway (a websocket or a replayed capture)
+ */
+export interface PronetSocket {
+  /**
+   * This function registers a listener for a received frame.
+   * @param event the event
+   * @param listener the listener
+   */
+  on(event: 'message', listener: (data: WebSocket.Data) => void): this;
+  /**
+   * This function registers a listener for an error of the connection.
+   * @param event the event
+   * @param listener the listener
+   */
+  on(event: 'error', listener: (error: Error) => void): this;
   /**
-   * the unique ID
+   * This function registers a listener for the upgrade response of the connection.
+   * @param event the event
+   * @param listener the listener
    */
-  readonly id: number;
+  on(event: 'upgrade', listener: (response: IncomingMessage) => void): this;
   /**
-   * the human readable name
+   * This function registers a listener for the end of the connection or for a pong.
+   * @param event the event
+   * @param listener the listener
    */
-  readonly name: string;
+  on(event: 'close' | 'pong', listener: () => void): this;
+  /**
+   * This function removes all listeners.
+   */
+  removeAllListeners(): this;
+  /**
+   * This function sends a frame.
+   * @param data the frame
+   */
+  send(data: string): void;
+  /**
+   * This function sends a ping (answered by a pong event).
+   */
+  ping(): void;
+  /**
+   * This function closes the transport.
+   */
+  close(): void;
+}
+
+/**
+ * the function creating the transport to the gateway
+ */
+export type SocketFactory = (url: string, options: WebSocket.ClientOptions) => PronetSocket;
+
+/**
+ * This function creates a websocket to the gateway.
+ * @param url the URL of the gateway
+ * @param options the options of the websocket
+ * @returns the websocket
+ */
+function createWebSocket(url: string, options: WebSocket.ClientOptions): PronetSocket {
+  return new WebSocket(url, options);
+}
+
+/**
+ * the state of the connection to the gateway
+ */
+export type ConnectionState = 'disconnected' | 'connecting' | 'authenticating' | 'ready' | 'closing';
+
+/**
+ * This interface defines the metrics of the connection to a gateway (for monitoring)
+ */
+export interface ConnectionMetrics {
+  /**
+   * the state of the connection
+   */
+  state: ConnectionState;
+  /**
+   * the number of successful logins
+   */
+  connections: number;
+  /**
+   * the number of reconnection attempts of the persistent connection
+   */
+  reconnects: number;
+  /**
+   * the number of logins refused by the gateway
+   */
+  authFailures: number;
+  /**
+   * the number of updates of all characteristics
+   */
+  refreshes: number;
+  /**
+   * the number of failed updates of all characteristics
+   */
+  refreshFailures: number;
+  /**
+   * the duration of the last successful update in ms (undefined, if there has been none)
+   */
+  refreshLatency?: number;
+  /**
+   * the age of the cached values in ms (undefined, if nothing is cached)
+   */
+  cacheAge?: number;
+  /**
+   * the time since the last frame of the gateway in ms (undefined, if nothing has been received yet)
+   */
+  lastSeen?: number;
+  /**
+   * the error of the last failed update (undefined, if the last update succeeded)
+   */
+  lastError?: string;
+  /**
+   * indicates that the gateway is working (the last update succeeded and no reconnection is pending)
+   */
+  healthy: boolean;
 }
+
+/**
+ * This interface defines an update of all characteristics in progress
+ */
+interface PendingRefresh {
+  /**
+   * the values received so far
+   */
+  values: Map<string, string>;
+  /**
+   * finishes the update (successfully, if no error is given)
+   */
+  finish: (error?: Error) => void;
+}
+
 /**
  * This class is the API via websocket to the Pronet web gateway.
+ * One instance is shared by all saunas connected to the same gateway.
+ * It emits an 'update' event (sauna ID, characteristic, typed value) for every known value written by the gateway
+ * and a 'state' event (state, previous state) for every change of the connection state.
+ * Every frame received or sent is emitted as 'frame' event (direction 'in' or 'out', raw JSON) for diagnostics.
+ * The protocol dialect is taken from the profile of the controller (configured or detected in the handshake), the model and the
+ * firmware of every sauna controller are checked after each update and emitted as 'controller' event (sauna ID, model, firmware).
  */
-export class SentiotecAPI {
+export class SentiotecAPI extends EventEmitter {
   /**
    * the logger that should be used
    */
   private log: Logger;
+  /**
+   * the current state of the connection
+   */
+  private state: ConnectionState = 'disconnected';
   /**
    * the map of cached values
    */
   private cachedValues?: Map<string, string>;
   /**
-   * indicates that a data refresh is currently in progress
+   * the timer invalidating the cached values
+   */
+  private cacheTimeout?: NodeJS.Timeout;
+  /**
+   * the connection in progress or established (shared by all requests, so writes are queued until it is ready)
+   */
+  private connection?: Promise<PronetSocket>;
+  /**
+   * rejects the connection in progress
+   */
+  private abortConnection?: (error: Error) => void;
+  /**
+   * the update of all characteristics in progress (shared by all requests)
+   */
+  private refreshing?: Promise<void>;
+  /**
+   * the values and the completion of the update of all characteristics in progress
    */
-  private dataUpdateInProgress = false;
+  private pendingRefresh?: PendingRefresh;
   /**
-   * indicates if a/the Sauna is actually connected to the pronet unit
+   * indicates per sauna ID if the sauna is actually connected to the pronet unit
    */
-  public connected = false;
+  private connectedSaunas: Map<number, boolean> = new Map();
   /**
    * the websocket to be used
    */
-  private websocket?: WebSocket;
+  private websocket?: PronetSocket;
   /**
    * the timeout for the websocket
    */
@@ -62,268 +302,864 @@ export class SentiotecAPI {
    */
   private ip: string;
   /**
-   * the sauna password
+   * the port of the Pronet websocket
    */
-  private password: string;
+  private port: number;
   /**
-   * the sauna serial number
+   * the Origin header sent when connecting (undefined for the address of the gateway)
    */
-  private serial: string;
+  private origin?: string;
+  /**
+   * the user logging in
+   */
+  private readonly username: string;
+  /**
+   * the MD5 hash of the sauna password (the cleartext is not kept)
+   */
+  private readonly passwordHash: string;
+  /**
+   * indicates that the websocket is secured by TLS (wss)
+   */
+  private readonly secure: boolean;
+  /**
+   * the CA certificates trusted for wss (default the system CAs)
+   */
+  private readonly ca?: Buffer;
+  /**
+   * the pinned SHA-256 fingerprint of the certificate for wss (normalized)
+   */
+  private readonly fingerprint?: string;
   /**
-   * the ID of the sauna
+   * the sauna serial number
    */
-  private saunaID = 0;
+  private serial: string;
   /**
    * indicates a first start (for the request of the characteristics)
    */
   private firstStart = true;
   /**
-   * the ID and name for the target temperature
+   * indicates that the websocket should be kept open and reconnected when dropped
    */
-  public TARGET_TEMPERATURE: SaunaCharacteristic = {
-    id: 2,
-    name: 'Target Temperature',
-  };
-
+  private readonly persistent: boolean;
   /**
-   * the ID and name for the current temperature
+   * indicates that the addresses not verified on a real controller are used (read and written)
    */
-  public readonly CURRENT_TEMPERATURE: SaunaCharacteristic = {
-    id: 11,
-    name: 'Current Temperature',
-  };
-
+  private readonly unverifiedAddresses: boolean;
   /**
-   * the ID and name for the firmware
+   * indicates that the API has been shut down and must not reconnect anymore
    */
-  public readonly FIRMWARE: SaunaCharacteristic = {
-    id: 21,
-    name: 'Firmware',
-  };
-
+  private stopped = false;
   /**
-   * the ID and name for the on/off switch
+   * the timer checking the liveness of a persistent connection
    */
-  public readonly ACTIVE: SaunaCharacteristic = {
-    id: 1,
-    name: 'Sauna On/Off',
-  };
-
+  private heartbeatTimer?: NodeJS.Timeout;
+  /**
+   * the timestamp of the last frame or pong received from the gateway
+   */
+  private lastSeen = 0;
+  /**
+   * the timer for the next reconnection attempt
+   */
+  private reconnectTimer?: NodeJS.Timeout;
+  /**
+   * the number of failed reconnection attempts since the last successful connection
+   */
+  private reconnectAttempts = 0;
+  /**
+   * the last value received per KNX address and the time it was received (kept while the connection is lost)
+   */
+  private lastKnownValues: Map<string, { value: string; time: number }> = new Map();
+  /**
+   * the handlers of the writes waiting for their echo by KNX address
+   */
+  private pendingWrites: Map<string, ((value: string) => void)[]> = new Map();
+  /**
+   * the profile of the controller (address map, end of an update and capabilities)
+   */
+  private profile: ControllerProfile;
+  /**
+   * the model and the firmware last reported per sauna (checked only once)
+   */
+  private readonly controllers: Map<number, string> = new Map();
+  /**
+   * the counters of the connection metrics
+   */
+  private readonly counters = { connections: 0, reconnects: 0, authFailures: 0, refreshes: 0, refreshFailures: 0 };
+  /**
+   * the duration of the last successful update in ms
+   */
+  private refreshLatency?: number;
+  /**
+   * the time the cached values have been updated completely
+   */
+  private refreshTime = 0;
+  /**
+   * the error of the last failed update
+   */
+  private lastError?: string;
   /**
    * the constructor
    * @param log the logger to be used
    * @param config the service configuration
+   * @param createSocket the function creating the transport to the gateway (replaceable, e.g. to replay a capture)
    */
-  constructor(log: Logger, config: AccessoryConfig) {
+  constructor(log: Logger, config: GatewayConfig, private readonly createSocket: SocketFactory = createWebSocket) {
+    super();
     this.log = log;
-    this.password = config.password;
+    this.username = config.username || DEFAULT_USERNAME;
+    this.passwordHash = getPasswordHash(config) || '';
+    this.secure = config.tls === true;
+    if (config.ca) {
+      try {
+        this.ca = fs.readFileSync(config.ca);
+      } catch (error) {
+        this.log.error('Reading the CA certificate ' + config.ca + ' failed: ' + error.message);
+      }
+    }
+    this.fingerprint = config.fingerprint ? normalizeFingerprint(config.fingerprint) : undefined;
     this.serial = config.serial;
     this.ip = config.ip;
-    this.saunaID = config.sauna;
+    this.profile = CONTROLLER_PROFILES[0];
+    this.port = config.port || this.profile.port;
+    this.origin = config.origin;
+    this.persistent = config.persistent === true;
+    this.unverifiedAddresses = config.unverifiedAddresses === true;
+  }
+
+  /**
+   * This function returns if a sauna is actually connected to the pronet unit.
+   * @param saunaID the ID of the sauna
+   * @returns true, if the sauna reported to be connected during the last update
+   */
+  public isConnected(saunaID: number): boolean {
+    return this.connectedSaunas.get(saunaID) === true;
+  }
+
+  /**
+   * This function returns the profile of the controller.
+   * @returns the profile (configured or detected)
+   */
+  public getProfile(): ControllerProfile {
+    return this.profile;
+  }
+
+  /**
+   * This function returns if a characteristic is used. Values of characteristics that are not used are neither read nor written.
+   * @param saunaCharacteristic the characteristic
+   * @returns true, if the profile of the controller supports the characteristic and its address has been verified
+   * (or unverified addresses are enabled)
+   */
+  public supports(saunaCharacteristic: SaunaCharacteristic): boolean {
+    return !this.profile.unsupported.includes(saunaCharacteristic) && (saunaCharacteristic.verified || this.unverifiedAddresses);
+  }
+
+  /**
+   * This function returns if a characteristic can be set.
+   * @param saunaCharacteristic the characteristic
+   * @returns true, if the characteristic is writable and used
+   */
+  public isWritable(saunaCharacteristic: SaunaCharacteristic): boolean {
+    return saunaCharacteristic.writable && this.supports(saunaCharacteristic);
+  }
+
+  /**
+   * This function returns the metrics of the connection to the gateway.
+   * @returns the metrics
+   */
+  public getMetrics(): ConnectionMetrics {
+    const now = Date.now();
+    // a persistent cache is kept up to date by the gateway, so it is as old as the last sign of life
+    const cacheTime = this.persistent ? Math.max(this.refreshTime, this.lastSeen) : this.refreshTime;
+    return {
+      state: this.state,
+      ...this.counters,
+      refreshLatency: this.refreshLatency,
+      cacheAge: this.cachedValues !== undefined ? now - cacheTime : undefined,
+      lastSeen: this.lastSeen > 0 ? now - this.lastSeen : undefined,
+      lastError: this.lastError,
+      healthy: this.lastError === undefined && this.reconnectTimer === undefined,
+    };
+  }
+
+  /**
+   * This function returns the current state of the connection to the gateway.
+   * @returns the connection state
+   */
+  public getState(): ConnectionState {
+    return this.state;
+  }
+
+  /**
+   * This function opens the persistent connection (only in persistent mode) and loads all characteristics.
+   */
+  public start() {
+    if (!this.persistent || this.stopped) {
+      return;
+    }
+    if (this.refreshing !== undefined || this.cachedValues !== undefined) {
+      // already connected (or connecting) due to a request of a characteristic
+      return;
+    }
+    this.refresh()
+      .then(() => {
+        this.log.info('Persistent connection to the Pronet gateway established');
+      })
+      .catch((error) => {
+        this.log.error('Persistent connection failed: ' + (error.message ? error.message : error));
+        this.scheduleReconnect();
+      });
+  }
+
+  /**
+   * This function closes the connection for good (e.g. on a Homebridge shutdown).
+   */
+  public stop() {
+    this.stopped = true;
+    if (this.reconnectTimer !== undefined) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = undefined;
+    }
+    if (this.cacheTimeout !== undefined) {
+      clearTimeout(this.cacheTimeout);
+      this.cacheTimeout = undefined;
+    }
+    this.cachedValues = undefined;
+    this.close();
+  }
+
+  /**
+   * This function returns the raw values of all characteristics (either cached or directly).
+   * @returns a Promise with the raw values by KNX address (including the ones not known to the plugin)
+   */
+  public getValues(): Promise<Map<string, string>> {
+    if (this.cachedValues !== undefined) {
+      return Promise.resolve(new Map(this.cachedValues));
+    }
+    return this.refresh()
+      .then(() => new Map(this.cachedValues || []));
+  }
+
+  /**
+   * This function sends a message to the gateway.
+   * @param websocket the websocket to the gateway
+   * @param message the message
+   */
+  private send(websocket: PronetSocket, message: { [key: string]: unknown }) {
+    const data = JSON.stringify(message);
+    this.emit('frame', 'out', data);
+    websocket.send(data);
+  }
+
+  /**
+   * This function changes the connection state and emits the state event.
+   * @param state the new state
+   */
+  private setState(state: ConnectionState) {
+    if (state === this.state) {
+      return;
+    }
+    const previousState = this.state;
+    this.state = state;
+    this.log.debug('Connection state changed from ' + previousState + ' to ' + state);
+    this.emit('state', state, previousState);
+  }
+
+  /**
+   * This function returns the authenticated websocket and connects to the gateway, if necessary.
+   * Concurrent calls share the same connection attempt.
+   * @returns a Promise with the websocket (resolved as soon as the connection is ready)
+   */
+  private connect(): Promise<PronetSocket> {
+    if (this.stopped) {
+      // no new connection (and no timers) after a shutdown
+      return Promise.reject(new Error('The connection to the Pronet gateway has been stopped'));
+    }
+    if (this.connection === undefined) {
+      this.connection = this.openConnection();
+    }
+    return this.connection;
   }
 
   /**
    * This function creates a new websocket and authenticates the user based on the information given in the constructor
    * @returns a Promise to handle the connection and authentication process
    */
-  private connect(): Promise<WebSocket> {
+  private openConnection(): Promise<PronetSocket> {
     // the needed security headers
-    const headers = {
-      'Origin': 'http://192.168.1.1',
-      'Sec-WebSocket-Extensions': 'permessage-deflate; client_max_window_bits',
-      'Sec-WebSocket-Version': '13',
-    };
-    const passwdMD5: string = Md5.hashStr(this.password, false) as string;
-    const url: string = 'ws://' + this.ip + ':17001' + '/' + this.serial;
-
-    // set the timer for authentication
-    const timeout: NodeJS.Timeout = setTimeout(() => {
-      this.close();
-      throw new Error('Autentication timed out');
-    }, OPERATION_TIMEOUT);
+    const headers = createHeaders(this.ip, this.origin);
+    const url: string = (this.secure ? 'wss://' : 'ws://') + this.ip + ':' + this.port + '/' + this.serial;
+    const options: WebSocket.ClientOptions = { headers };
+    if (this.secure) {
+      options.ca = this.ca;
+      // a pinned certificate (e.g. self-signed by a TLS proxy) is checked by its fingerprint instead of the CAs
+      options.rejectUnauthorized = this.fingerprint === undefined;
+    }
 
     return new Promise((resolve, reject) => {
-      if (this.websocket !== undefined) {
-        if (this.websocket.readyState === this.websocket.OPEN){
-          this.log.debug('Websocket already setup, returning');
-          // websocket is open and ready, so do not authenticate again
-          this.firstStart = false;
-          resolve(this.websocket);
-        } else {
-          // close it anyway and reopen it
+      // set the timer for the whole authentication request
+      const timeout: NodeJS.Timeout = setTimeout(() => {
+        this.abortConnection!(new Error('Authentication timed out'));
+        this.close();
+      }, OPERATION_TIMEOUT);
+      this.abortConnection = (error) => {
+        clearTimeout(timeout);
+        this.abortConnection = undefined;
+        reject(error);
+      };
+
+      this.setState('connecting');
+      const websocket = this.createSocket(url, options);
+      this.websocket = websocket;
+      websocket.on('upgrade', (response: IncomingMessage) => {
+        if (this.fingerprint === undefined) {
+          return;
+        }
+        // checked before any credentials are sent
+        const certificate = (response.socket as TLSSocket).getPeerCertificate();
+        if (!certificate || normalizeFingerprint(certificate.fingerprint256 || '') !== this.fingerprint) {
+          this.log.error('The certificate of the Pronet gateway does not match the pinned fingerprint');
+          this.abortConnection!(new Error('Certificate fingerprint mismatch'));
           this.close();
         }
-      }
-      // set an inital timeout for the whole autentication request
-      this.websocket = new WebSocket(url, { headers });
-      this.websocket.onmessage = (message) => {
-        const pronetMessage = JSON.parse(message.data.toString());
-        const authenticationObject = {
-          'cmd': 'cmd_request_auth',
-          'sn': this.serial,
-          'user': 'root',
-          'passwd': passwdMD5,
-        };
+      });
+      websocket.on('message', (data: WebSocket.Data) => {
+        this.lastSeen = Date.now();
+        this.emit('frame', 'in', data.toString());
+        let pronetMessage;
+        try {
+          pronetMessage = JSON.parse(data.toString());
+        } catch (error) {
+          this.log.debug('Ignoring invalid message: ' + data.toString());
+          return;
+        }
         switch (pronetMessage.cmd) {
-          case 'cmd_on_accept':
-            // step1: connection accepted
+          case 'cmd_on_accept': {
+            // step1: connection accepted (newer gateways announce their model)
+            if (typeof pronetMessage.model === 'string') {
+              this.selectProfile(pronetMessage.model);
+            }
             this.log.debug('Initial connection confirmation received, sending authentication details');
-            this.websocket!.send(JSON.stringify(authenticationObject));
+            this.setState('authenticating');
+            const authenticationObject = {
+              'cmd': 'cmd_request_auth',
+              'sn': this.serial,
+              'user': this.username,
+              'passwd': this.passwordHash,
+            };
+            this.send(websocket, authenticationObject);
             break;
+          }
           case 'cmd_auth_response':
             // setp2: authentication
+            if (this.state !== 'authenticating') {
+              break;
+            }
             if (pronetMessage.value === 'true') {
               this.log.debug('Authentication successful');
               // clear the authentication timeout
               clearTimeout(timeout);
-              // set the general connection open timeout
-              this.webSocketTimeout = setTimeout(() => {
-                this.log.debug('Timeout reached, closing websocket');
-                this.close();
-              }, WEBSOCKET_TIMEOUT);
-              resolve(this.websocket!);
+              this.abortConnection = undefined;
+              if (!this.persistent) {
+                // set the general connection open timeout
+                this.webSocketTimeout = setTimeout(() => {
+                  this.log.debug('Timeout reached, closing websocket');
+                  this.close();
+                }, WEBSOCKET_TIMEOUT);
+              }
+              this.counters.connections++;
+              this.setState('ready');
+              resolve(websocket);
             } else {
               this.log.debug('Authentication unsuccessful, terminating websocket.');
-              clearTimeout(timeout);
-              this.websocket!.close();
-              reject(new Error('Authentication unsuccessful'));
+              this.counters.authFailures++;
+              this.abortConnection!(new Error('Authentication unsuccessful'));
+              this.close();
             }
             break;
+          case 'cmd_knx_write':
+            this.onValue(pronetMessage.addr, String(pronetMessage.value));
+            break;
         }
-      };
-      this.websocket.onerror = (error) => {
-        clearTimeout(timeout);
-        this.close();
-        reject(error);
-      };
+      });
+      websocket.on('error', (error: Error) => {
+        this.connectionDropped(error.message);
+      });
+      websocket.on('close', () => {
+        this.connectionDropped('websocket closed by the gateway');
+      });
     });
   }
 
   /**
    * This function closes the websocket and does the cleanup.
+   * Pending connection attempts and updates are rejected.
    */
   private close() {
     if (this.websocket !== undefined) {
+      this.setState('closing');
+      // detach the handlers first, so that an intended close is not treated as a dropped connection
+      this.websocket.removeAllListeners();
+      this.websocket.on('error', () => undefined);
       this.websocket.close();
       this.websocket = undefined;
     }
+    this.connection = undefined;
+    if (this.abortConnection !== undefined) {
+      this.abortConnection(new Error('Connection to the Pronet gateway closed'));
+    }
+    if (this.pendingRefresh !== undefined) {
+      this.pendingRefresh.finish(new Error('Connection to the Pronet gateway closed'));
+    }
     if (this.webSocketTimeout !== undefined){
       clearTimeout(this.webSocketTimeout!);
       this.webSocketTimeout = undefined;
     }
+    if (this.heartbeatTimer !== undefined) {
+      clearInterval(this.heartbeatTimer);
+      this.heartbeatTimer = undefined;
+    }
     this.firstStart = true;
+    this.setState('disconnected');
+  }
+
+  /**
+   * This function is called when the websocket reported an error or has been closed by the gateway.
+   * @param reason the reason for the log output
+   */
+  private connectionDropped(reason: string) {
+    if (this.abortConnection !== undefined) {
+      // the connection could not be established
+      this.abortConnection(new Error(reason));
+      this.close();
+    } else if (this.persistent && !this.stopped) {
+      this.connectionLost(reason);
+    } else {
+      this.log.debug('Websocket closed: ' + reason);
+      this.close();
+    }
+  }
+
+  /**
+   * This function is called when a persistent connection dropped unexpectedly.
+   * @param reason the reason for the log output
+   */
+  private connectionLost(reason: string) {
+    this.log.warn('Connection to the Pronet gateway lost: ' + reason);
+    this.lastError = 'Connection lost: ' + reason;
+    this.close();
+    this.cachedValues = undefined;
+    this.scheduleReconnect();
+  }
+
+  /**
+   * This function schedules the next reconnection attempt with an exponential backoff.
+   */
+  private scheduleReconnect() {
+    if (!this.persistent || this.stopped || this.reconnectTimer !== undefined) {
+      return;
+    }
+    const delay = Math.min(RECONNECT_MAX_DELAY, RECONNECT_MIN_DELAY * Math.pow(2, this.reconnectAttempts));
+    this.reconnectAttempts++;
+    this.log.info('Reconnecting to the Pronet gateway in ' + Math.round(delay / 1000) + ' sec');
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = undefined;
+      this.counters.reconnects++;
+      this.start();
+    }, delay);
+  }
+
+  /**
+   * This function starts the liveness detection for a persistent connection.
+   * @param websocket the websocket to be watched
+   */
+  private startHeartbeat(websocket: PronetSocket) {
+    if (this.heartbeatTimer !== undefined) {
+      return;
+    }
+    this.lastSeen = Date.now();
+    websocket.on('pong', () => {
+      this.lastSeen = Date.now();
+    });
+    this.heartbeatTimer = setInterval(() => {
+      if (Date.now() - this.lastSeen > HEARTBEAT_TIMEOUT) {
+        this.connectionLost('no heartbeat received');
+      } else {
+        websocket.ping();
+      }
+    }, HEARTBEAT_INTERVAL);
   }
 
   /**
    * This function returns a characteristic from the sauna (either cached or directly)
-   * @param characteristicID the ID of the characteristic
-   */
-  public getCharacteristic(saunaCharacteristic: SaunaCharacteristic): Promise<string> {
-    const characteristicString: string = '183/' + this.saunaID + '/' + saunaCharacteristic.id;
-
-    // check if a data update is in progress and wait the operation timeout, before trying again
-    if (this.dataUpdateInProgress) {
-      this.log.debug('Update in progress, delaying characteristic fetching for "' + saunaCharacteristic.name + '"');
-      return new Promise((resolve, reject) => {
-        setTimeout(() => {
-          if (this.cachedValues !== undefined) {
-            resolve(this.cachedValues.get(characteristicString) as string);
-          } else {
-            reject('Data could not be fetched, as another process had a problem.');
-          }
-        }, OPERATION_TIMEOUT);
-      });
+   * @param saunaID the ID of the sauna
+   * @param saunaCharacteristic the characteristic
+   * @returns a Promise with the typed value (undefined, if the gateway did not send the characteristic)
+   */
+  public getCharacteristic<T extends SaunaValue>(saunaID: number, saunaCharacteristic: SaunaCharacteristic<T>): Promise<T | undefined> {
+    const characteristicString: string = this.getAddress(saunaID, saunaCharacteristic);
+    return new Promise((resolve, reject) => {
+      if (this.cachedValues !== undefined) {
+        // cache is still valid, so return the value directly
+        resolve(this.readCachedValue(characteristicString, saunaCharacteristic));
+      } else if (this.reconnectTimer !== undefined) {
+        reject(new Error('Connection to the Pronet gateway lost, waiting for reconnect'));
+      } else {
+        this.refresh()
+          .then(() => resolve(this.readCachedValue(characteristicString, saunaCharacteristic)))
+          .catch((error) => {
+            // a persistent connection is retried in the background
+            this.scheduleReconnect();
+            reject(error);
+          });
+      }
+    });
+  }
+
+  /**
+   * This function returns the last value received for a characteristic, even if the cache is no longer valid.
+   * @param saunaID the ID of the sauna
+   * @param saunaCharacteristic the characteristic
+   * @param maxAge the maximum age of the value in ms
+   * @returns the typed value or undefined, if no value has been received within the maximum age
+   */
+  public getLastKnownValue<T extends SaunaValue>(saunaID: number, saunaCharacteristic: SaunaCharacteristic<T>,
+    maxAge: number): T | undefined {
+    const lastKnown = this.lastKnownValues.get(this.getAddress(saunaID, saunaCharacteristic));
+    if (lastKnown === undefined || Date.now() - lastKnown.time > maxAge || !this.supports(saunaCharacteristic)) {
+      return undefined;
+    }
+    return saunaCharacteristic.parse(lastKnown.value);
+  }
+
+  /**
+   * This function reads a value from the cache and converts it.
+   * @param address the KNX address of the value
+   * @param saunaCharacteristic the characteristic
+   * @returns the typed value or undefined, if the value is not cached (or the characteristic is not used)
+   */
+  private readCachedValue<T extends SaunaValue>(address: string, saunaCharacteristic: SaunaCharacteristic<T>): T | undefined {
+    const raw = this.cachedValues !== undefined ? this.cachedValues.get(address) : undefined;
+    if (raw === undefined || !this.supports(saunaCharacteristic)) {
+      return undefined;
+    }
+    return saunaCharacteristic.parse(raw);
+  }
+
+  /**
+   * This function connects to the gateway and requests all characteristics to fill the cache.
+   * Concurrent calls share the same update.
+   * @returns a Promise that resolves as soon as the last characteristic has been received
+   */
+  private refresh(): Promise<void> {
+    if (this.refreshing !== undefined) {
+      this.log.debug('Update in progress, waiting for it');
+      return this.refreshing;
+    }
+    this.refreshing = new Promise((resolve, reject) => {
+      this.log.debug('Updating characteristics');
+      const started = Date.now();
+      this.connect()
+        .then((websocket) => {
+          // set an inital timeout for the whole request
+          const timeout: NodeJS.Timeout = setTimeout(() => {
+            this.pendingRefresh!.finish(new Error('Refresh of values failed due to timeout' +
+              this.describeIncompleteUpdate(this.pendingRefresh!.values)));
+            this.close();
+          }, OPERATION_TIMEOUT);
+          this.pendingRefresh = {
+            values: new Map(),
+            finish: (error) => {
+              clearTimeout(timeout);
+              this.pendingRefresh = undefined;
+              this.refreshing = undefined;
+              this.recordRefresh(started, error);
+              if (error !== undefined) {
+                reject(error);
+              } else {
+                resolve();
+              }
+            },
+          };
+          // send update command to get all characteristics
+          const refresh = {
+            'cmd': 'cmd_request_update_all',
+            'start': this.firstStart,
+          };
+          this.firstStart = false;
+          this.send(websocket, refresh);
+        })
+        .catch((error) => {
+          this.refreshing = undefined;
+          this.recordRefresh(started, error);
+          reject(error);
+        });
+    });
+    return this.refreshing;
+  }
+
+  /**
+   * This function records the result of an update of all characteristics for the metrics.
+   * @param started the time the update has been started
+   * @param error the error, if the update failed
+   */
+  private recordRefresh(started: number, error?: Error) {
+    this.counters.refreshes++;
+    if (error !== undefined) {
+      this.counters.refreshFailures++;
+      this.lastError = error.message;
     } else {
-      return new Promise((resolve, reject) => {
-        if (this.cachedValues !== undefined) {
-          // cache is still valid, so return the value directly
-          resolve(this.cachedValues.get(characteristicString) as string);
+      this.refreshTime = Date.now();
+      this.refreshLatency = this.refreshTime - started;
+      this.lastError = undefined;
+    }
+  }
+
+  /**
+   * This function handles a value written by the gateway (as part of an update, a change or the echo of a write).
+   * @param address the KNX address of the value
+   * @param value the raw value
+   */
+  private onValue(address: string, value: string) {
+    this.updateConnected(address, value);
+    this.lastKnownValues.set(address, { value, time: Date.now() });
+    const pendingRefresh = this.pendingRefresh;
+    if (pendingRefresh !== undefined) {
+      pendingRefresh.values.set(address, value);
+      // last message, all data received
+      if (address === this.profile.addressPrefix + '/' + this.profile.endAddress) {
+        this.log.debug('Update characteristics finished');
+        this.cachedValues = pendingRefresh.values;
+        // publish the fresh values
+        this.cachedValues.forEach((cachedValue, cachedAddress) => this.emitUpdate(cachedAddress, cachedValue));
+        this.checkControllers(this.cachedValues);
+        if (this.persistent) {
+          // the cache is kept up to date by the gateway, so watch the connection
+          this.reconnectAttempts = 0;
+          this.startHeartbeat(this.websocket!);
         } else {
-          this.log.debug('Updating characteristics');
-          // data needs to be updated first
-          this.dataUpdateInProgress = true;
-          this.connect()
-            .then((websocket) => {
-              // set an inital timeout for the whole  request
-              const timeout: NodeJS.Timeout = setTimeout(() => {
-                this.close();
-                reject(new Error('Refresh of values failed due to timeout'));
-              }, OPERATION_TIMEOUT);
-              // initialize the caching map
-              this.cachedValues = new Map();
-              // wait for the messages
-              websocket.removeAllListeners();
-              websocket.onmessage = (message) => {
-                const pronetMessage = JSON.parse(message.data.toString());
-                switch (pronetMessage.cmd) {
-                  case 'cmd_knx_write':
-                    if (this.cachedValues !== undefined) {
-                      this.cachedValues!.set(pronetMessage.addr, pronetMessage.value);
-                    }
-                    // first message - sauna active state
-                    if (pronetMessage.addr === '183/' + this.saunaID + '/0') {
-                      // 0: sauna active information
-                      if (parseInt(pronetMessage.value) === 1) {
-                        this.connected = true;
-                      } else {
-                        this.connected = false;
-                      }
-                    }
-                    // last message, all data received
-                    if (pronetMessage.addr === '183/1/47') {
-                      // all finished, as last dataset was reached
-                      this.log.debug('Update characteristics finished');
-                      clearTimeout(timeout);
-                      this.dataUpdateInProgress = false;
-                      setTimeout(() => {
-                        this.log.debug('Invalidating cache');
-                        this.cachedValues = undefined;
-                      }, DATA_VALID_TIMEOUT);
-                      // return the characteristic
-                      resolve(this.cachedValues!.get(characteristicString) as string);
-                    }
-                    break;
-                }
-              };
-              websocket!.onerror = (error) => {
-                clearTimeout(timeout);
-                this.close();
-                reject(error);
-              };
-              // send update command to get all characteristics
-              const refresh = {
-                'cmd': 'cmd_request_update_all',
-                'start': this.firstStart,
-              };
-              websocket.send(JSON.stringify(refresh));
-            })
-            .catch((error) => reject(error));
+          if (this.cacheTimeout !== undefined) {
+            clearTimeout(this.cacheTimeout);
+          }
+          this.cacheTimeout = setTimeout(() => {
+            this.log.debug('Invalidating cache');
+            this.cacheTimeout = undefined;
+            this.cachedValues = undefined;
+          }, DATA_VALID_TIMEOUT);
         }
-      });
+        pendingRefresh.finish();
+      }
+    } else if (this.cachedValues !== undefined) {
+      // a change pushed by the gateway
+      this.cachedValues.set(address, value);
+      this.emitUpdate(address, value);
+    }
+    this.confirmWrite(address, value);
+  }
+
+  /**
+   * This function returns the KNX address of a characteristic.
+   * @param saunaID the ID of the sauna
+   * @param saunaCharacteristic the characteristic
+   * @returns the address in the dialect of the controller
+   */
+  private getAddress(saunaID: number, saunaCharacteristic: SaunaCharacteristic): string {
+    return this.profile.addressPrefix + '/' + saunaID + '/' + saunaCharacteristic.id;
+  }
+
+  /**
+   * This function selects the profile of a model announced in the handshake.
+   * @param model the model of the gateway
+   */
+  private selectProfile(model: string) {
+    const profile = detectProfile(model);
+    if (profile === undefined) {
+      this.log.warn('Unknown gateway model "' + model + '", using the ' + this.profile.model + ' protocol (please report the model)');
+    } else if (profile !== this.profile) {
+      this.log.info('Detected gateway model "' + model + '", using the ' + profile.model + ' protocol');
+      this.profile = profile;
+    }
+  }
+
+  /**
+   * This function checks the model and the firmware of the sauna controllers against the profile and emits the controller events.
+   * Unknown models and untested firmware versions are logged once, as some values may be missing or be interpreted wrongly.
+   * @param values the raw values of the update by KNX address
+   */
+  private checkControllers(values: Map<string, string>) {
+    this.connectedSaunas.forEach((connected, saunaID) => {
+      const model = this.supports(SaunaCharacteristics.CONTROLLER_MODEL) ?
+        values.get(this.getAddress(saunaID, SaunaCharacteristics.CONTROLLER_MODEL)) || '' : '';
+      const firmware = values.get(this.getAddress(saunaID, SaunaCharacteristics.FIRMWARE)) || '';
+      if (!connected || (!model && !firmware) || this.controllers.get(saunaID) === model + '/' + firmware) {
+        return;
+      }
+      this.controllers.set(saunaID, model + '/' + firmware);
+      this.log.debug('Sauna ' + saunaID + ': controller ' + model + ', firmware ' + firmware);
+      if (model && !this.profile.models.test(model.trim())) {
+        this.log.warn('The controller model "' + model + '" of sauna ' + saunaID + ' is not known to the ' + this.profile.model +
+          ' profile, please report it if values are missing or wrong');
+      }
+      if (firmware && !isTestedFirmware(this.profile, firmware)) {
+        this.log.warn('The firmware ' + firmware + ' of sauna ' + saunaID + ' has not been tested with the ' + this.profile.model +
+          ' profile, please report it if values are missing or wrong');
+      }
+      this.emit('controller', saunaID, model, firmware);
+    });
+  }
+
+  /**
+   * This function explains why an update of all characteristics did not finish.
+   * @param values the raw values received so far by KNX address
+   * @returns the explanation to be appended to the error message (empty, if nothing has been received)
+   */
+  private describeIncompleteUpdate(values: Map<string, string>): string {
+    const addresses = Array.from(values.keys());
+    if (addresses.length === 0) {
+      return '';
     }
+    if (!addresses.some((address) => address.startsWith(this.profile.addressPrefix + '/'))) {
+      return ', no value with the address prefix ' + this.profile.addressPrefix + '/ of the ' + this.profile.model +
+        ' profile received (e.g. ' + addresses[0] + '), the controller is not supported';
+    }
+    return ', the last value of the update (' + this.profile.addressPrefix + '/' + this.profile.endAddress + ') has not been received';
   }
 
   /**
-   * This function sets a characteristic on the sauna.
-   * @param characteristicID the ID of the characteristic
-   * @param value the corresponding value (currently only active and temperature - both numbers - can be set)
-   * @returns a Promise for the execution
+   * This function tracks the connection state of the saunas.
+   * @param address the KNX address of the value
+   * @param value the raw value
    */
-  public setCharacterstic(saunaCharacteristic: SaunaCharacteristic, value: number): Promise<undefined> {
+  private updateConnected(address: string, value: string) {
+    const parts = address.split('/');
+    // first message per sauna - sauna active state
+    if (parts.length === 3 && parts[0] === this.profile.addressPrefix && parts[2] === '0') {
+      // 0: sauna active information
+      this.connectedSaunas.set(parseInt(parts[1]), parseInt(value) === 1);
+    }
+  }
+
+  /**
+   * This function emits an update event for a known and used characteristic of a sauna.
+   * @param address the KNX address of the value
+   * @param value the raw value
+   */
+  private emitUpdate(address: string, value: string) {
+    const parts = address.split('/');
+    if (parts.length === 3 && parts[0] === this.profile.addressPrefix) {
+      const saunaCharacteristic = findCharacteristic(parseInt(parts[2]));
+      if (saunaCharacteristic !== undefined && this.supports(saunaCharacteristic)) {
+        this.emit('update', parseInt(parts[1]), saunaCharacteristic, saunaCharacteristic.parse(value));
+      }
+    }
+  }
+
+  /**
+   * This function sets a characteristic on the sauna and waits for the controller to confirm the new value.
+   * Writes that are not echoed by the controller are retried.
+   * @param saunaID the ID of the sauna
+   * @param saunaCharacteristic the characteristic
+   * @param value the typed value (read-only characteristics and invalid values are rejected without contacting the gateway)
+   * @returns a Promise with the value confirmed by the controller (may differ from the written value, if it was clamped or rejected)
+   */
+  public setCharacterstic<T extends SaunaValue>(saunaID: number, saunaCharacteristic: SaunaCharacteristic<T>,
+    value: T): Promise<T> {
     return new Promise((resolve, reject) => {
-      this.connect()
+      if (!saunaCharacteristic.writable) {
+        reject(new Error('Characteristic "' + saunaCharacteristic.name + '" is read-only'));
+        return;
+      }
+      if (this.profile.unsupported.includes(saunaCharacteristic)) {
+        reject(new Error('"' + saunaCharacteristic.name + '" is not supported by the ' + this.profile.model + ' controller'));
+        return;
+      }
+      if (!this.supports(saunaCharacteristic)) {
+        reject(new Error('Writing "' + saunaCharacteristic.name + '" is disabled, its address has not been verified ' +
+          '(enable unverifiedAddresses to allow it)'));
+        return;
+      }
+      let rawValue: number | string;
+      try {
+        rawValue = saunaCharacteristic.serialize(value);
+      } catch (error) {
+        reject(error);
+        return;
+      }
+      const address = this.getAddress(saunaID, saunaCharacteristic);
+      const write = (retries: number) => {
+        if (this.stopped) {
+          reject(new Error('Connection to the Pronet gateway has been closed'));
+          return;
+        }
+        this.sendWrite(address, rawValue)
+          .then((confirmedValue) => {
+            if (confirmedValue !== undefined) {
+              resolve(saunaCharacteristic.parse(confirmedValue));
+            } else if (retries > 0) {
+              this.log.debug('Write of "' + saunaCharacteristic.name + '" not confirmed, retrying');
+              write(retries - 1);
+            } else {
+              reject(new Error('Write of "' + saunaCharacteristic.name + '" not confirmed by the controller'));
+            }
+          })
+          .catch((error) => {
+            reject(error);
+          });
+      };
+      write(WRITE_RETRIES);
+    });
+  }
+
+  /**
+   * This function sends a single write to the gateway and waits for its echo.
+   * @param address the KNX address
+   * @param rawValue the raw value
+   * @returns a Promise with the raw value echoed by the controller or undefined, if the write has not been echoed in time
+   */
+  private sendWrite(address: string, rawValue: number | string): Promise<string | undefined> {
+    return new Promise((resolve, reject) => {
+      if (this.reconnectTimer !== undefined) {
+        reject(new Error('Connection to the Pronet gateway lost, waiting for reconnect'));
+        return;
+      }
+      // queued until the connection is ready (and a running update is finished, as it may contain the old value)
+      const ready = this.refreshing !== undefined ? this.refreshing.then(() => this.connect()) : this.connect();
+      ready
         .then((websocket) => {
+          const confirm = (confirmedValue: string) => {
+            clearTimeout(timeout);
+            resolve(confirmedValue);
+          };
+          const timeout: NodeJS.Timeout = setTimeout(() => {
+            const handlers = this.pendingWrites.get(address);
+            if (handlers !== undefined) {
+              this.pendingWrites.set(address, handlers.filter((handler) => handler !== confirm));
+            }
+            resolve(undefined);
+          }, WRITE_TIMEOUT);
+          this.pendingWrites.set(address, (this.pendingWrites.get(address) || []).concat(confirm));
           const setter = {
             'cmd': 'cmd_knx_write',
-            'addr': '183/' + this.saunaID + '/' + saunaCharacteristic.id,
-            'value': value,
+            'addr': address,
+            'value': rawValue,
           };
-          websocket.send(JSON.stringify(setter));
-          resolve(undefined);
+          this.send(websocket, setter);
         })
         .catch((error) => {
           reject(error);
         });
     });
   }
-}
\ No newline at end of file
+
+  /**
+   * This function confirms the writes waiting for a value written by the gateway.
+   * @param address the KNX address of the value
+   * @param value the raw value
+   */
+  private confirmWrite(address: string, value: string) {
+    const handlers = this.pendingWrites.get(address);
+    if (handlers !== undefined) {
+      this.pendingWrites.delete(address);
+      handlers.forEach((handler) => handler(String(value)));
+    }
+  }
+}